@@ -0,0 +1,140 @@
+// attachments.ts
+import JSZip from "jszip";
+import { Vault } from "obsidian";
+
+import { Chat, MessagePart } from "./types";
+import { ensureFolderExists, hashArrayBuffer } from "./utils";
+import { Logger } from "./logger";
+import { ImportPreview } from "./preview";
+
+const logger = new Logger();
+
+// Export members are named after the asset: "file-AbC123-photo.png", "dalle-generations/file_00ab-….webp"
+const ASSET_ID_PATTERN = /^(file[-_][A-Za-z0-9]+)/;
+
+// "file-service://file-AbC123" or "sediment://file_00ab…"
+export function getAssetId(assetPointer: string): string {
+    return assetPointer.replace(/^[a-z-]+:\/\//, "");
+}
+
+export function isImagePart(part: string | MessagePart): boolean {
+    return (
+        typeof part === "object" && part.content_type === "image_asset_pointer"
+    );
+}
+
+/**
+ * Copies the images and files referenced by messages out of an export ZIP, found by asset ID or else by
+ * file name. Assets are stored under
+ * their content hash, so identical files are written once and re-imports find them already in place.
+ */
+export class AttachmentExtractor {
+    private assetIndex = new Map<string, string>(); // Asset ID -> ZIP entry
+    private nameIndex = new Map<string, string>(); // Lowercased file name -> ZIP entry
+    private resolved = new Map<string, string | undefined>(); // Asset ID -> vault path
+
+    constructor(
+        private vault: Vault,
+        private zip: JSZip,
+        private folder: string,
+        private preview?: ImportPreview // Record the files instead of writing them
+    ) {
+        for (const name of Object.keys(zip.files)) {
+            if (zip.files[name].dir) continue;
+            const fileName = name.split("/").pop() || "";
+            const match = fileName.match(ASSET_ID_PATTERN);
+            if (match && !this.assetIndex.has(match[1])) {
+                this.assetIndex.set(match[1], name);
+            }
+            if (!this.nameIndex.has(fileName.toLowerCase())) {
+                this.nameIndex.set(fileName.toLowerCase(), name);
+            }
+        }
+    }
+
+    // Record the vault path of every asset a chat references on the part or attachment itself
+    async resolveChat(chat: Chat): Promise<void> {
+        for (const node of Object.values(chat.mapping)) {
+            const message = node.message;
+            if (!message) continue;
+
+            for (const part of message.content?.parts || []) {
+                if (
+                    typeof part === "object" &&
+                    isImagePart(part) &&
+                    part.asset_pointer
+                ) {
+                    part.vault_path = await this.resolveAsset(
+                        getAssetId(part.asset_pointer)
+                    );
+                }
+            }
+            for (const attachment of message.metadata?.attachments || []) {
+                attachment.vault_path = await this.resolveAsset(
+                    attachment.id,
+                    attachment.name
+                );
+            }
+        }
+    }
+
+    private async resolveAsset(
+        assetId: string,
+        originalName?: string
+    ): Promise<string | undefined> {
+        if (this.resolved.has(assetId)) {
+            return this.resolved.get(assetId);
+        }
+
+        let vaultPath: string | undefined;
+        // Exports other than ChatGPT's keep uploads under their original name, if at all
+        const entry =
+            this.assetIndex.get(assetId) ||
+            (originalName
+                ? this.nameIndex.get(originalName.toLowerCase())
+                : undefined);
+        const zipFile = entry ? this.zip.file(entry) : null;
+        if (entry && zipFile) {
+            try {
+                const data = await zipFile.async("arraybuffer");
+                const hash = await hashArrayBuffer(data);
+                const fileName =
+                    hash.substring(0, 16) +
+                    this.getExtension(entry, originalName);
+                vaultPath = `${this.folder}/${fileName}`;
+
+                if (this.preview) {
+                    if (!(await this.vault.adapter.exists(vaultPath))) {
+                        this.preview.addAttachment(vaultPath);
+                    }
+                } else if (!(await this.vault.adapter.exists(vaultPath))) {
+                    const folderResult = await ensureFolderExists(
+                        this.folder,
+                        this.vault
+                    );
+                    if (!folderResult.success) {
+                        throw new Error(folderResult.error);
+                    }
+                    await this.vault.createBinary(vaultPath, data);
+                }
+            } catch (error: unknown) {
+                logger.error(
+                    `Failed to extract attachment ${assetId}`,
+                    error instanceof Error ? error.message : error
+                );
+                vaultPath = undefined;
+            }
+        }
+
+        this.resolved.set(assetId, vaultPath);
+        return vaultPath;
+    }
+
+    private getExtension(entry: string, originalName?: string): string {
+        for (const name of [entry.split("/").pop() || "", originalName || ""]) {
+            const match = name.match(/\.([A-Za-z0-9]{1,8})$/);
+            if (match) return `.${match[1].toLowerCase()}`;
+        }
+        return "";
+    }
+}
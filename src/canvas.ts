@@ -0,0 +1,161 @@
+// canvas.ts
+import { CanvasDocument, Chat, ChatMessage } from "./types";
+import { getActiveMessages } from "./tree";
+import { getToolName } from "./tools";
+import { Logger } from "./logger";
+
+const logger = new Logger();
+
+// Document version produced by a canvas call
+export interface CanvasRevision {
+    document: CanvasDocument;
+    version: number; // 1-based
+}
+
+export interface CanvasResult {
+    documents: CanvasDocument[];
+    revisions: Map<string, CanvasRevision>; // Message ID -> version it produced
+}
+
+// "code/python" -> ".py"; unknown languages are kept as plain text
+const CODE_EXTENSIONS: Record<string, string> = {
+    python: "py",
+    javascript: "js",
+    typescript: "ts",
+    react: "jsx",
+    html: "html",
+    css: "css",
+    java: "java",
+    kotlin: "kt",
+    swift: "swift",
+    c: "c",
+    cpp: "cpp",
+    csharp: "cs",
+    go: "go",
+    rust: "rs",
+    ruby: "rb",
+    php: "php",
+    sql: "sql",
+    bash: "sh",
+    shell: "sh",
+    json: "json",
+    yaml: "yaml",
+    r: "r",
+};
+
+export function isCodeCanvas(document: CanvasDocument): boolean {
+    return document.type.startsWith("code/");
+}
+
+export function getCanvasLanguage(document: CanvasDocument): string {
+    return isCodeCanvas(document) ? document.type.substring(5) : "";
+}
+
+export function getCanvasExtension(document: CanvasDocument): string {
+    if (!isCodeCanvas(document)) return ".md";
+    return `.${CODE_EXTENSIONS[getCanvasLanguage(document)] || "txt"}`;
+}
+
+function isCanvasMessage(message: ChatMessage): boolean {
+    return (getToolName(message) || "").startsWith("canmore.");
+}
+
+// Canvas calls carry their arguments as JSON text
+function parsePayload(message: ChatMessage): any {
+    const text =
+        message.content.text ??
+        (message.content.parts || []).find((part) => typeof part === "string");
+    if (typeof text !== "string") return undefined;
+    try {
+        const payload = JSON.parse(text);
+        return payload && typeof payload === "object" ? payload : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function applyUpdates(
+    text: string,
+    updates: { pattern?: string; multiple?: boolean; replacement?: string }[]
+): string {
+    for (const update of updates) {
+        const replacement = update.replacement ?? "";
+        if (!update.pattern || /^\^?\.\*\$?$/.test(update.pattern)) {
+            text = replacement; // Full rewrite
+            continue;
+        }
+        try {
+            const pattern = new RegExp(
+                update.pattern,
+                update.multiple ? "g" : ""
+            );
+            // A function keeps `$` in the replacement literal
+            text = text.replace(pattern, () => replacement);
+        } catch (error: unknown) {
+            logger.warn(
+                `Skipping canvas update with invalid pattern: ${update.pattern}`,
+                error instanceof Error ? error.message : error
+            );
+        }
+    }
+    return text;
+}
+
+/**
+ * Replay the canvas calls of the active thread to rebuild every document at each of its versions.
+ * Updates apply to the document the previous call touched, as they do in ChatGPT.
+ */
+export function collectCanvasDocuments(chat: Chat): CanvasResult {
+    const documents: CanvasDocument[] = [];
+    const revisions = new Map<string, CanvasRevision>();
+    let current: CanvasDocument | undefined;
+    let awaitingId: CanvasDocument | undefined; // Created, but its textdoc_id is not known yet
+
+    for (const message of getActiveMessages(chat)) {
+        if (!isCanvasMessage(message)) continue;
+
+        if (message.author.role === "tool") {
+            const textdocId = message.metadata?.canvas?.textdoc_id;
+            if (!textdocId) continue;
+            const known = documents.find(
+                (document) => document.id === textdocId
+            );
+            if (known) {
+                current = known;
+            } else if (awaitingId) {
+                awaitingId.id = textdocId;
+                current = awaitingId;
+            }
+            awaitingId = undefined;
+            continue;
+        }
+
+        const payload = parsePayload(message);
+        if (!payload) continue;
+
+        if (typeof payload.content === "string") {
+            // canmore.create_textdoc: { name, type, content }
+            current = {
+                id: message.id,
+                name: payload.name || "Canvas",
+                type: payload.type || "document",
+                versions: [payload.content],
+            };
+            documents.push(current);
+            awaitingId = current;
+        } else if (Array.isArray(payload.updates) && current) {
+            // canmore.update_textdoc: { updates: [{ pattern, multiple, replacement }] }
+            const previous = current.versions[current.versions.length - 1];
+            current.versions.push(applyUpdates(previous, payload.updates));
+        } else {
+            continue;
+        }
+
+        revisions.set(message.id, {
+            document: current,
+            version: current.versions.length,
+        });
+    }
+
+    return { documents, revisions };
+}
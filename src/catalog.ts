@@ -0,0 +1,151 @@
+// catalog.ts
+import { ConversationCatalogEntry, Provider } from "./types";
+import { getCatalogKey } from "./utils";
+
+// A vault note and its frontmatter, as found by the metadata cache
+export interface NoteProperties {
+    path: string;
+    frontmatter?: Record<string, any>;
+}
+
+export interface CatalogRebuild {
+    catalog: Record<string, ConversationCatalogEntry>;
+    duplicates: { key: string; kept: string; others: string[] }[]; // Notes sharing a conversation
+    orphans: ConversationCatalogEntry[]; // Previous entries whose conversation has no note left
+}
+
+// Unix time from an ISO 8601 property; 0 when missing or unreadable, so the next import updates the note
+function parseTime(value: unknown): number {
+    const time = Date.parse(String(value ?? ""));
+    return isNaN(time) ? 0 : Math.floor(time / 1000);
+}
+
+function asList(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) return value.map(String);
+    return value ? [String(value)] : undefined;
+}
+
+/**
+ * Catalog entry for a conversation note written by the importer. Exchange notes, branch and canvas notes
+ * carry no entry of their own: the conversation note (or index note) stands for all of them.
+ */
+export function getCatalogEntry(
+    note: NoteProperties
+): ConversationCatalogEntry | undefined {
+    const frontmatter = note.frontmatter;
+    if (
+        !frontmatter?.nexus ||
+        !frontmatter.conversation_id ||
+        frontmatter.exchange !== undefined
+    ) {
+        return undefined;
+    }
+
+    return {
+        conversationId: String(frontmatter.conversation_id),
+        provider: (frontmatter.provider || "chatgpt") as Provider,
+        path: note.path,
+        updateTime: parseTime(frontmatter.update_time),
+        models: asList(frontmatter.models),
+        gpt: frontmatter.gpt_id || undefined,
+        project: frontmatter.project_id || undefined,
+        archived: frontmatter.archived === true,
+    };
+}
+
+/**
+ * Build the catalog from the notes in the vault. When several notes hold the same conversation, the one
+ * the previous catalog pointed at is kept, otherwise the first by path.
+ */
+export function rebuildCatalog(
+    notes: NoteProperties[],
+    previous: Record<string, ConversationCatalogEntry>
+): CatalogRebuild {
+    const found = new Map<string, ConversationCatalogEntry[]>();
+    for (const note of [...notes].sort((a, b) =>
+        a.path.localeCompare(b.path)
+    )) {
+        const entry = getCatalogEntry(note);
+        if (!entry) continue;
+        const key = getCatalogKey(entry.provider, entry.conversationId);
+        found.set(key, [...(found.get(key) || []), entry]);
+    }
+
+    const catalog: Record<string, ConversationCatalogEntry> = {};
+    const duplicates: CatalogRebuild["duplicates"] = [];
+    for (const [key, entries] of found) {
+        const kept =
+            entries.find((entry) => entry.path === previous[key]?.path) ||
+            entries[0];
+        catalog[key] = kept;
+        if (entries.length > 1) {
+            duplicates.push({
+                key,
+                kept: kept.path,
+                others: entries
+                    .filter((entry) => entry !== kept)
+                    .map((entry) => entry.path),
+            });
+        }
+    }
+
+    const orphans = Object.entries(previous)
+        .filter(([key]) => !catalog[key])
+        .map(([, entry]) => entry);
+    return { catalog, duplicates, orphans };
+}
+
+// Entries whose note was at `oldPath`, or inside it when a folder was renamed, moved to `newPath`
+export function renameCatalogPaths(
+    catalog: Record<string, ConversationCatalogEntry>,
+    oldPath: string,
+    newPath: string
+): boolean {
+    let changed = false;
+    for (const entry of Object.values(catalog)) {
+        if (entry.path === oldPath) {
+            entry.path = newPath;
+            changed = true;
+        } else if (entry.path.startsWith(`${oldPath}/`)) {
+            entry.path = newPath + entry.path.substring(oldPath.length);
+            changed = true;
+        }
+    }
+    return changed;
+}
+
+// Report of a catalog rebuild: notes holding the same conversation, and entries left without a note
+export function formatRebuildReport(
+    duplicates: CatalogRebuild["duplicates"],
+    orphans: ConversationCatalogEntry[]
+): string {
+    let content = "# Catalog rebuild\n\n";
+    if (duplicates.length > 0) {
+        content += "## Duplicate conversations\n\n";
+        content +=
+            "These notes hold the same conversation. Updates go to the catalogued note; merge or delete the others.\n\n";
+        content += "| | Conversation | Catalogued note | Other notes |\n";
+        content += "|---|:---|:---|:---|\n";
+        duplicates.forEach(({ key, kept, others }) => {
+            content += `| ⚠️ | \`${key}\` | [[${kept}]] | ${others
+                .map((path) => `[[${path}]]`)
+                .join("<br>")} |\n`;
+        });
+        content += "\n\n";
+    }
+    if (orphans.length > 0) {
+        content += "## Orphaned entries\n\n";
+        content +=
+            "No note in the vault holds these conversations any more. They were removed from the catalog and will be imported again.\n\n";
+        content += "| | Conversation | Last known path |\n";
+        content += "|---|:---|:---|\n";
+        orphans.forEach((entry) => {
+            content += `| 🗑️ | \`${getCatalogKey(
+                entry.provider,
+                entry.conversationId
+            )}\` | ${entry.path} |\n`;
+        });
+        content += "\n\n";
+    }
+    return content;
+}
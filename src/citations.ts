@@ -0,0 +1,136 @@
+// citations.ts
+import { addTrailingSection } from "./merge";
+import { ChatMessage } from "./types";
+import { hashString } from "./utils";
+
+export interface CitationSource {
+    url: string;
+    title: string;
+}
+
+// Marker left in the message text and the sources it stands for
+interface Citation {
+    marker: string;
+    sources: CitationSource[];
+    fallback?: string; // Text shown instead when no source is known
+}
+
+// The section formatSourcesSection writes, and nothing the user added around it
+const SOURCES_SECTION =
+    /^## Sources\n\n(?:- \[.*\]\(.*\)\n)+\n(?:\[\^src-[0-9a-f]+\]: .*(?:\n|$))+/m;
+
+// "【12†source】" from the browsing tool, and "\ue200cite\ue202turn0search1\ue201" from search
+const LEFTOVER_MARKERS = /【[^】]*†[^】]*】|\ue200[^\ue201]*\ue201/g;
+
+function toSource(item: any): CitationSource | undefined {
+    const url = item?.url || item?.metadata?.url;
+    if (typeof url !== "string" || !url) return undefined;
+    const title = item.title || item.metadata?.title || getDomain(url);
+    return {
+        url,
+        title: String(title)
+            .replace(/[[\]\s]+/g, " ")
+            .trim(),
+    };
+}
+
+function getMessageText(message: ChatMessage): string {
+    return (message.content?.parts || [])
+        .filter((part): part is string => typeof part === "string")
+        .join("\n");
+}
+
+function getCitations(message: ChatMessage): Citation[] {
+    const citations: Citation[] = [];
+
+    // Search answers: `content_references` name the exact text they replace
+    for (const reference of message.metadata?.content_references || []) {
+        if (!reference?.matched_text?.trim()) continue;
+        const items = reference.items || reference.sources || [reference];
+        citations.push({
+            marker: reference.matched_text,
+            sources: items
+                .map(toSource)
+                .filter(
+                    (source: CitationSource | undefined) => source !== undefined
+                ),
+            fallback: reference.alt,
+        });
+    }
+
+    // Browsing answers: `citations` point at the marker by offset into the text
+    const text = getMessageText(message);
+    for (const citation of message.metadata?.citations || []) {
+        const source = toSource(citation);
+        if (!source || typeof citation.start_ix !== "number") continue;
+        const marker = text.substring(citation.start_ix, citation.end_ix);
+        if (marker.trim()) citations.push({ marker, sources: [source] });
+    }
+
+    return citations;
+}
+
+export function getDomain(url: string): string {
+    const match = url.match(/^[a-z]+:\/\/(?:www\.)?([^/?#:]+)/i);
+    return match ? match[1].toLowerCase() : url;
+}
+
+// Derived from the URL so every note and every message uses the same label for a source
+export function getFootnoteLabel(source: CitationSource): string {
+    return `src-${hashString(source.url)}`;
+}
+
+// Replace citation markers with footnote references and drop markers the export cannot resolve
+export function replaceCitations(text: string, message: ChatMessage): string {
+    const citations = getCitations(message).sort(
+        (a, b) => b.marker.length - a.marker.length // Longest first, so markers that contain others win
+    );
+    for (const { marker, sources, fallback } of citations) {
+        const footnotes = sources
+            .map((source) => `[^${getFootnoteLabel(source)}]`)
+            .join("");
+        text = text.split(marker).join(footnotes || fallback || "");
+    }
+    return text.replace(LEFTOVER_MARKERS, "");
+}
+
+// Sources cited by the messages, in order of first citation
+export function collectSources(messages: ChatMessage[]): CitationSource[] {
+    const sources = new Map<string, CitationSource>();
+    for (const message of messages) {
+        for (const citation of getCitations(message)) {
+            for (const source of citation.sources) {
+                if (!sources.has(source.url)) sources.set(source.url, source);
+            }
+        }
+    }
+    return Array.from(sources.values());
+}
+
+export function formatSourcesSection(sources: CitationSource[]): string {
+    if (sources.length === 0) return "";
+    const list = sources
+        .map((source) => `- [${source.title}](${source.url})`)
+        .join("\n");
+    const footnotes = sources
+        .map(
+            (source) =>
+                `[^${getFootnoteLabel(source)}]: [${source.title}](${
+                    source.url
+                })`
+        )
+        .join("\n");
+    return `## Sources\n\n${list}\n\n${footnotes}\n`;
+}
+
+// Replace the Sources section where it is, or add it at the end of the note, above the user notes
+export function setSourcesSection(
+    content: string,
+    sources: CitationSource[]
+): string {
+    const section = formatSourcesSection(sources);
+    if (SOURCES_SECTION.test(content)) {
+        return content.replace(SOURCES_SECTION, () => section);
+    }
+    return section ? addTrailingSection(content, section) : content;
+}
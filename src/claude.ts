@@ -0,0 +1,168 @@
+// claude.ts
+import { Chat, ChatNode, ChatMessage } from "./types";
+
+interface ClaudeContentBlock {
+    type: string;
+    text?: string;
+    [key: string]: any;
+}
+
+interface ClaudeAttachment {
+    file_name: string;
+    file_type?: string;
+    file_size?: number;
+    extracted_content?: string;
+}
+
+interface ClaudeMessage {
+    uuid: string;
+    text?: string;
+    sender: "human" | "assistant";
+    created_at: string;
+    updated_at?: string;
+    content?: ClaudeContentBlock[];
+    attachments?: ClaudeAttachment[];
+    files?: { file_name: string; file_uuid?: string }[];
+    parent_message_uuid?: string;
+}
+
+export interface ClaudeConversation {
+    uuid: string;
+    name: string;
+    created_at: string;
+    updated_at: string;
+    chat_messages: ClaudeMessage[];
+}
+
+// Anthropic exports are arrays of conversations carrying `uuid` and `chat_messages`
+export function isClaudeExport(conversations: any): boolean {
+    return (
+        Array.isArray(conversations) &&
+        conversations.length > 0 &&
+        typeof conversations[0]?.uuid === "string" &&
+        Array.isArray(conversations[0]?.chat_messages)
+    );
+}
+
+function toUnixTime(isoDate: string | undefined, fallback: number): number {
+    const time = isoDate ? Date.parse(isoDate) : NaN;
+    return isNaN(time) ? fallback : time / 1000;
+}
+
+function getMessageText(message: ClaudeMessage): string {
+    const blocks = Array.isArray(message.content) ? message.content : [];
+    const text = blocks
+        .filter((block) => block.type === "text" && block.text)
+        .map((block) => block.text)
+        .join("\n\n");
+
+    // Older exports only carry the flat `text` field
+    return text || message.text || "";
+}
+
+function formatAttachments(message: ClaudeMessage): string {
+    const lines: string[] = [];
+
+    for (const attachment of message.attachments || []) {
+        lines.push(`**Attachment:** ${attachment.file_name}`);
+        if (attachment.extracted_content) {
+            lines.push("```", attachment.extracted_content.trim(), "```");
+        }
+    }
+    return lines.join("\n");
+}
+
+// Map an Anthropic conversation onto the ChatGPT-shaped model used by the importer
+export function convertClaudeConversation(
+    conversation: ClaudeConversation
+): Chat {
+    const createTime = toUnixTime(conversation.created_at, Date.now() / 1000);
+    const updateTime = toUnixTime(conversation.updated_at, createTime);
+    const mapping: Record<string, ChatNode> = {};
+    const claudeMessages = conversation.chat_messages || [];
+    const uuids = new Set(claudeMessages.map((message) => message.uuid));
+    // Exports from before branching carry no parent links: each message follows the one before
+    const hasParents = claudeMessages.some(
+        (message) => message.parent_message_uuid !== undefined
+    );
+    const roots: string[] = [];
+
+    let previousId: string | null = null;
+    for (const claudeMessage of claudeMessages) {
+        const parts = [
+            getMessageText(claudeMessage),
+            formatAttachments(claudeMessage),
+        ].filter((part) => part.trim() !== "");
+
+        const message: ChatMessage = {
+            id: claudeMessage.uuid,
+            author: {
+                role: claudeMessage.sender === "human" ? "user" : "assistant",
+            },
+            content: {
+                content_type: "text",
+                parts: [parts.join("\n\n")],
+            },
+            create_time: toUnixTime(claudeMessage.created_at, createTime),
+        };
+        // Uploaded files go through the attachment pipeline, which notes those the export leaves out
+        if (claudeMessage.files?.length) {
+            message.metadata = {
+                attachments: claudeMessage.files.map((file) => ({
+                    id: file.file_uuid || file.file_name,
+                    name: file.file_name,
+                })),
+            };
+        }
+
+        // Root messages, an edited first prompt among them, point to a sentinel UUID outside the export
+        const parent = claudeMessage.parent_message_uuid;
+        const parentId = hasParents
+            ? parent && uuids.has(parent) && parent !== claudeMessage.uuid
+                ? parent
+                : null
+            : previousId;
+        mapping[claudeMessage.uuid] = {
+            id: claudeMessage.uuid,
+            message,
+            parent: parentId,
+            children: [],
+        };
+        if (!parentId) roots.push(claudeMessage.uuid);
+        previousId = claudeMessage.uuid;
+    }
+    for (const node of Object.values(mapping)) {
+        if (node.parent) mapping[node.parent].children?.push(node.id);
+    }
+
+    // Several first prompts are alternates of one another, under a root of their own as in ChatGPT exports
+    if (roots.length > 1) {
+        const rootId = `${conversation.uuid}-root`;
+        mapping[rootId] = { id: rootId, parent: null, children: roots };
+        roots.forEach((id) => (mapping[id].parent = rootId));
+    }
+
+    // The thread shown in Claude is the one most recently added to
+    const leaves = Object.values(mapping).filter(
+        (node) => node.message && node.children?.length === 0
+    );
+    const activeLeaf = leaves.reduce<ChatNode | undefined>(
+        (latest, node) =>
+            !latest ||
+            (node.message?.create_time ?? 0) >=
+                (latest.message?.create_time ?? 0)
+                ? node
+                : latest,
+        undefined
+    );
+
+    return {
+        id: conversation.uuid,
+        title: conversation.name,
+        provider: "claude",
+        create_time: createTime,
+        update_time: updateTime,
+        mapping,
+        current_node: activeLeaf?.id,
+    };
+}
@@ -0,0 +1,29 @@
+// details.ts
+import { Chat, ChatDetails } from "./types";
+import { getActiveMessages } from "./tree";
+
+export function getChatDetails(chat: Chat): ChatDetails {
+    const models: string[] = [];
+    for (const message of getActiveMessages(chat)) {
+        const model = message.metadata?.model_slug;
+        if (
+            message.author.role === "assistant" &&
+            model &&
+            !models.includes(model)
+        ) {
+            models.push(model);
+        }
+    }
+
+    // Custom GPTs and projects are both stored as gizmos; project IDs start with "g-p-"
+    const gizmoId = chat.gizmo_id || chat.conversation_template_id || undefined;
+    const isProject = !!gizmoId && gizmoId.startsWith("g-p-");
+
+    return {
+        models,
+        defaultModel: chat.default_model_slug || undefined,
+        gpt: isProject ? undefined : gizmoId,
+        project: isProject ? gizmoId : undefined,
+        archived: !!chat.is_archived,
+    };
+}
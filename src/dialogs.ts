@@ -1,4 +1,4 @@
-import { Modal, App } from "obsidian";
+import { Modal, App, Component, MarkdownRenderer } from "obsidian";
 
 // Function to show the modal
 function displayModal(app: App, title: string, paragraphs: string[], note?: string): Modal {
@@ -52,3 +52,38 @@ export async function showDialog(app: App, type: "information" | "confirmation",
         modal.open();
     });
 }
+
+// Rendered import preview; resolves true when the user chooses to import, false when the modal is closed otherwise
+export async function showPreview(
+    app: App,
+    component: Component,
+    markdown: string
+): Promise<boolean> {
+    return new Promise((resolve) => {
+        const modal = new Modal(app);
+        modal.contentEl.addClass("nexus-ai-chat-importer-modal");
+        modal.titleEl.setText("Import preview");
+
+        const previewDiv = modal.contentEl.createEl("div", {
+            cls: "nexus-ai-chat-importer-preview",
+        });
+        MarkdownRenderer.render(app, markdown, previewDiv, "", component);
+
+        let confirmed = false;
+        const buttonDiv = modal.contentEl.createEl("div", {
+            cls: "button-container",
+        });
+        buttonDiv
+            .createEl("button", { text: "Import", cls: "mod-cta" })
+            .addEventListener("click", () => {
+                confirmed = true;
+                modal.close();
+            });
+        buttonDiv
+            .createEl("button", { text: "Cancel" })
+            .addEventListener("click", () => modal.close());
+
+        modal.onClose = () => resolve(confirmed);
+        modal.open();
+    });
+}
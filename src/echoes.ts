@@ -0,0 +1,206 @@
+// echoes.ts
+import { Chat, ChatNode, ChatMessage, EchoesDocument } from "./types";
+import { hashString } from "./utils";
+
+type Role = ChatMessage["author"]["role"];
+
+interface EchoesMetadata {
+    title?: string;
+    url?: string;
+    id?: string;
+    created?: string;
+    updated?: string;
+}
+
+interface EchoesSection {
+    role: Role;
+    time?: number;
+    body: string;
+}
+
+// Matched against the whole speaker label so headings inside answers are not mistaken for speakers
+const ROLE_PATTERNS: [RegExp, Role][] = [
+    [/^(user|you|me|human)$/i, "user"],
+    [/^system$/i, "system"],
+    [
+        /^(assistant|ai|chatgpt|gpt[\w.-]*|claude|gemini|bard|copilot|perplexity|mistral|llama|bot|model)( [\w.-]+)?$/i,
+        "assistant",
+    ],
+];
+
+// Heading dates such as "2024-05-01 14:03" or "5/1/2024, 2:03 PM"
+const TIME_PATTERN =
+    /(\d{4}-\d{2}-\d{2}[ T]\d{1,2}:\d{2}(?::\d{2})?|\d{1,2}\/\d{1,2}\/\d{2,4},? \d{1,2}:\d{2}(?::\d{2})?(?:\s*[AP]M)?)/i;
+
+// Message sections start with a Markdown heading or a bold-only line naming the speaker
+const SECTION_PATTERN = /^(?:#{3,6}\s+(.+?)|\*\*(.+?)\*\*:?)\s*$/;
+
+function parseOverview(text: string): EchoesMetadata {
+    const metaMatch = text.match(
+        /## Overview\r?\n([\s\S]*?)\r?\n\r?\n## Conversation/
+    );
+    const metadata: Record<string, string> = {};
+    if (metaMatch) {
+        const lines = metaMatch[1].split(/\r?\n/);
+        for (const line of lines) {
+            const m = line.match(/- \*\*(.+?)\*\*:\s*(.*)/);
+            if (m) {
+                const key = m[1].toLowerCase().replace(/\s+/g, "");
+                metadata[key] = m[2];
+            }
+        }
+    }
+    return {
+        title: metadata.title || metadata.id,
+        url: metadata.url,
+        id: metadata.id,
+        created: metadata.created,
+        updated: metadata["lastupdated"] || metadata.updated,
+    };
+}
+
+function detectRole(heading: string): Role | undefined {
+    // "👤 User, on 5/1/2024" -> "User"
+    const label = heading
+        .replace(TIME_PATTERN, "")
+        .replace(/^[^\p{L}\p{N}]+/u, "")
+        .split(/[,:([|–—]| - | on | at /i)[0]
+        .trim();
+    const match = ROLE_PATTERNS.find(([pattern]) => pattern.test(label));
+    return match ? match[1] : undefined;
+}
+
+// Message sections, and the text before the first of them
+function parseSections(conversation: string): {
+    sections: EchoesSection[];
+    preamble: string;
+} {
+    const sections: EchoesSection[] = [];
+    const preamble: string[] = [];
+    let current: EchoesSection | undefined;
+    let lines: string[] = [];
+
+    const closeSection = () => {
+        if (current) {
+            // Drop the horizontal rules Echoes puts between messages
+            current.body = lines
+                .join("\n")
+                .replace(/(\n\s*-{3,}\s*)+$/, "")
+                .trim();
+            if (current.body) sections.push(current);
+        }
+        lines = [];
+    };
+
+    for (const line of conversation.split(/\r?\n/)) {
+        const heading = line.match(SECTION_PATTERN);
+        const headingText = heading ? heading[1] || heading[2] : "";
+        const role = heading ? detectRole(headingText) : undefined;
+
+        if (role) {
+            closeSection();
+            const time = headingText.match(TIME_PATTERN);
+            const parsedTime = time ? Date.parse(time[1]) / 1000 : NaN;
+            current = {
+                role,
+                time: isNaN(parsedTime) ? undefined : parsedTime,
+                body: "",
+            };
+        } else if (current) {
+            lines.push(line);
+        } else {
+            preamble.push(line);
+        }
+    }
+    closeSection();
+
+    return { sections, preamble: preamble.join("\n").trim() };
+}
+
+// Unix time of an Overview date; undefined when missing or unreadable
+function parseDate(value: string | undefined): number | undefined {
+    const time = value ? Date.parse(value) / 1000 : NaN;
+    return isNaN(time) ? undefined : time;
+}
+
+// Turn an Echoes Markdown export into the same Chat model used for provider exports
+export function parseEchoesDocument(document: EchoesDocument): Chat {
+    const metadata = parseOverview(document.text);
+    const title = metadata.title || document.name.replace(/\.md$/i, "");
+    const chatId = metadata.id || hashString(metadata.url || title);
+
+    const conversationIndex = document.text.indexOf("## Conversation");
+    const conversation =
+        conversationIndex >= 0
+            ? document.text.substring(
+                  conversationIndex + "## Conversation".length
+              )
+            : document.text;
+
+    let { sections } = parseSections(conversation);
+    if (sections.length === 0 && conversation.trim()) {
+        // Keep unrecognised layouts as a single message rather than losing them
+        sections = [{ role: "assistant", body: conversation.trim() }];
+    }
+
+    // Without Overview dates, the message times, then 0: the same on every import, so unchanged
+    // documents are not taken for updated ones
+    const times = sections
+        .map((section) => section.time)
+        .filter((time): time is number => time !== undefined);
+    const createTime =
+        parseDate(metadata.created) ?? (times.length ? Math.min(...times) : 0);
+    const updateTime =
+        parseDate(metadata.updated) ??
+        (times.length ? Math.max(...times) : createTime);
+
+    const mapping: Record<string, ChatNode> = {};
+    let previousId: string | null = null;
+
+    sections.forEach((section, index) => {
+        // Numbered by position, so a message edited at the source keeps its ID and is refreshed
+        const messageId = `echoes-${chatId}-${index + 1}`;
+
+        mapping[messageId] = {
+            id: messageId,
+            message: {
+                id: messageId,
+                author: { role: section.role },
+                content: { content_type: "text", parts: [section.body] },
+                create_time: section.time ?? createTime,
+            },
+            parent: previousId,
+            children: [],
+        };
+        if (previousId) mapping[previousId].children?.push(messageId);
+        previousId = messageId;
+    });
+
+    return {
+        id: chatId,
+        title,
+        provider: "echoes",
+        url: metadata.url,
+        create_time: createTime,
+        update_time: updateTime,
+        mapping,
+    };
+}
+
+/**
+ * Whether the raw conversation text earlier versions pasted into a note is still the export's own text,
+ * message for message, with nothing written around it.
+ */
+export function isUneditedEchoesText(text: string, chat: Chat): boolean {
+    const { sections, preamble } = parseSections(text);
+    const messages = Object.values(chat.mapping).map((node) => node.message);
+    return (
+        preamble.replace(/^## Conversation$/m, "").trim() === "" &&
+        sections.length <= messages.length &&
+        sections.every(
+            (section, index) =>
+                section.role === messages[index]?.author.role &&
+                section.body === messages[index]?.content.parts?.[0]
+        )
+    );
+}
@@ -0,0 +1,107 @@
+// exchanges.ts
+import { ChatMessage } from "./types";
+
+// A user prompt and every message up to the next prompt, identified by the prompt's UID
+export interface Exchange {
+    id: string;
+    messages: ChatMessage[];
+}
+
+// Heading of the list of exchange notes in a conversation's index note
+export const EXCHANGES_HEADING = "## Exchanges";
+
+// Index line: `3. [[Note - 003|First words of the prompt]] <!-- UID: … -->`
+const EXCHANGE_LINK =
+    /^\d+\. \[\[([^\]|]+)(?:\|[^\]]*)?\]\].*<!-- UID: (.*?) -->$/gm;
+
+// Messages before the first prompt, such as a system message, open the first exchange
+export function groupExchanges(messages: ChatMessage[]): Exchange[] {
+    const exchanges: Exchange[] = [];
+    let leading: ChatMessage[] = [];
+
+    for (const message of messages) {
+        const current = exchanges[exchanges.length - 1];
+        if (message.author.role === "user") {
+            exchanges.push({
+                id: message.id,
+                messages: [...leading, message],
+            });
+            leading = [];
+        } else if (current) {
+            current.messages.push(message);
+        } else {
+            leading.push(message);
+        }
+    }
+
+    if (leading.length > 0) {
+        exchanges.push({ id: leading[0].id, messages: leading });
+    }
+    return exchanges;
+}
+
+// Start of the prompt, usable as a heading and as a wikilink alias
+export function getExchangeTitle(exchange: Exchange, maxLength = 60): string {
+    const prompt = exchange.messages.find(
+        (message) => message.author.role === "user"
+    );
+    const text = (prompt?.content.parts || [])
+        .filter((part): part is string => typeof part === "string")
+        .join(" ")
+        .replace(/[[\]|#^]+/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+    if (!text) return "Untitled";
+    return text.length > maxLength
+        ? `${text.substring(0, maxLength - 1).trimEnd()}…`
+        : text;
+}
+
+export function formatExchangeLink(
+    number: number,
+    noteName: string,
+    exchange: Exchange
+): string {
+    return `${number}. [[${noteName}|${getExchangeTitle(
+        exchange
+    )}]] <!-- UID: ${exchange.id} -->\n`;
+}
+
+// Exchange UID -> name of its note, as listed in an index note
+export function findExchangeLinks(content: string): Map<string, string> {
+    const links = new Map<string, string>();
+    let match;
+    EXCHANGE_LINK.lastIndex = 0;
+    while ((match = EXCHANGE_LINK.exec(content)) !== null) {
+        links.set(match[2], match[1]);
+    }
+    return links;
+}
+
+// Right after the last listed exchange, so text written below the list stays below it
+export function addExchangeLink(content: string, link: string): string {
+    let end = -1;
+    let match;
+    EXCHANGE_LINK.lastIndex = 0;
+    while ((match = EXCHANGE_LINK.exec(content)) !== null) {
+        end = match.index + match[0].length + 1; // Include the line break
+    }
+    if (end < 0) {
+        const heading = content.indexOf(`\n${EXCHANGES_HEADING}\n`);
+        if (heading < 0) return `${content.trimEnd()}\n\n${link}`;
+        end = heading + EXCHANGES_HEADING.length + 2;
+        link = `\n${link}`;
+    }
+    // The last link may close the content without a line break of its own
+    const before = content.substring(0, end);
+    return (
+        before +
+        (before.endsWith("\n") ? "" : "\n") +
+        link +
+        content.substring(end)
+    );
+}
+
+export function isExchangeIndex(content: string): boolean {
+    return content.includes(`\n${EXCHANGES_HEADING}\n`);
+}
@@ -0,0 +1,276 @@
+// gemini.ts
+import { htmlToMarkdown } from "obsidian";
+
+import { Chat, ChatNode } from "./types";
+
+interface GeminiActivityRecord {
+    title: string;
+    time: string;
+    safeHtmlItem?: { html: string }[];
+    attachedFiles?: string[];
+}
+
+export interface GeminiExchange {
+    time: number; // Unix time in seconds
+    prompt: string;
+    response: string;
+    attachedFiles: string[];
+}
+
+// Activity record that could not be read as a prompt and its answer
+export interface SkippedRecord {
+    record: string;
+    reason: string;
+}
+
+// Span of a conversation imported before, from its catalog entry
+export interface GeminiSession {
+    start: number; // Unix time of its first prompt, as in its ID
+    end: number; // Unix time of its last prompt
+}
+
+// Only English exports are recognised; records in other languages are reported as skipped
+const PROMPT_PREFIX = /^Prompted\s+/;
+
+const ACTIVITY_FILE_PATTERN =
+    /(^|\/)My Activity\/Gemini Apps\/MyActivity\.(json|html)$/i;
+
+// Takeout puts Gemini history under "My Activity/Gemini Apps"
+export function findGeminiActivityFile(
+    fileNames: string[]
+): string | undefined {
+    const matches = fileNames.filter((name) =>
+        ACTIVITY_FILE_PATTERN.test(name)
+    );
+    // Prefer the JSON export, its timestamps are unambiguous
+    return matches.find((name) => name.endsWith(".json")) || matches[0];
+}
+
+function stripPromptPrefix(title: string): string {
+    return title.replace(PROMPT_PREFIX, "").trim();
+}
+
+function parseJsonActivity(
+    text: string,
+    skipped: SkippedRecord[]
+): GeminiExchange[] {
+    const records: GeminiActivityRecord[] = JSON.parse(text);
+    const exchanges: GeminiExchange[] = [];
+
+    for (const record of records) {
+        if (!PROMPT_PREFIX.test(record.title || "")) {
+            skipped.push({
+                record: record.title || "Untitled",
+                reason: "Not a prompt",
+            });
+            continue;
+        }
+        exchanges.push({
+            time: Date.parse(record.time) / 1000,
+            prompt: stripPromptPrefix(record.title),
+            response: (record.safeHtmlItem || [])
+                .map((item) => htmlToMarkdown(item.html))
+                .join("\n\n"),
+            attachedFiles: record.attachedFiles || [],
+        });
+    }
+    return exchanges;
+}
+
+function parseHtmlActivity(
+    text: string,
+    skipped: SkippedRecord[]
+): GeminiExchange[] {
+    const doc = new DOMParser().parseFromString(text, "text/html");
+    const exchanges: GeminiExchange[] = [];
+
+    doc.querySelectorAll(".outer-cell").forEach((outerCell) => {
+        const cell = outerCell.querySelector(".content-cell");
+        if (!cell) return;
+
+        // Cell layout: "Prompted <prompt>", <br>, "<date>", <br>, response markup
+        const textNodes: string[] = [];
+        let node = cell.firstChild;
+        while (node && textNodes.length < 2) {
+            if (node.nodeType === Node.TEXT_NODE) {
+                const value = (node.textContent || "").trim();
+                if (value) textNodes.push(value);
+            }
+            const next: ChildNode | null = node.nextSibling;
+            cell.removeChild(node);
+            node = next;
+        }
+
+        const [title, date] = textNodes;
+        if (!title || !PROMPT_PREFIX.test(title) || !date) {
+            skipped.push({
+                record: title || "Untitled",
+                reason: "Not a prompt",
+            });
+            return;
+        }
+
+        exchanges.push({
+            // Newer exports separate the time and AM/PM with narrow no-break spaces
+            time: Date.parse(date.replace(/[\u202f\u00a0]/g, " ")) / 1000,
+            prompt: stripPromptPrefix(title),
+            response: htmlToMarkdown(cell.innerHTML),
+            attachedFiles: [],
+        });
+    });
+
+    return exchanges;
+}
+
+// Prompts of the activity file, oldest first, and the records that were left out
+export function parseGeminiActivity(
+    fileName: string,
+    text: string
+): { exchanges: GeminiExchange[]; skipped: SkippedRecord[] } {
+    const skipped: SkippedRecord[] = [];
+    const exchanges = fileName.toLowerCase().endsWith(".json")
+        ? parseJsonActivity(text, skipped)
+        : parseHtmlActivity(text, skipped);
+
+    return {
+        exchanges: exchanges
+            .filter((exchange) => {
+                if (!isNaN(exchange.time)) return true;
+                // Dates of the HTML export are written in the account's language
+                skipped.push({
+                    record: exchange.prompt,
+                    reason: "Unreadable date",
+                });
+                return false;
+            })
+            .sort((a, b) => a.time - b.time),
+        skipped,
+    };
+}
+
+function generateTitle(prompt: string): string {
+    const firstLine = prompt.split("\n")[0].trim();
+    return firstLine.length > 60
+        ? firstLine.substring(0, 60).trim() + "…"
+        : firstLine || "Gemini conversation";
+}
+
+function buildChat(exchanges: GeminiExchange[]): Chat {
+    const mapping: Record<string, ChatNode> = {};
+    const firstTime = exchanges[0].time;
+    let previousId: string | null = null;
+    const occurrences: Record<number, number> = {};
+
+    const addNode = (
+        id: string,
+        role: "user" | "assistant",
+        text: string,
+        time: number,
+        attachedFiles: string[] = []
+    ) => {
+        mapping[id] = {
+            id,
+            message: {
+                id,
+                author: { role },
+                content: { content_type: "text", parts: [text] },
+                create_time: time,
+                // Takeout puts attached files next to the activity file, under their own name
+                metadata: attachedFiles.length
+                    ? {
+                          attachments: attachedFiles.map((name) => ({
+                              id: name,
+                              name,
+                          })),
+                      }
+                    : undefined,
+            },
+            parent: previousId,
+            children: [],
+        };
+        if (previousId) mapping[previousId].children?.push(id);
+        previousId = id;
+    };
+
+    for (const exchange of exchanges) {
+        // Prompts sharing a timestamp are numbered, so their messages keep apart
+        occurrences[exchange.time] = (occurrences[exchange.time] || 0) + 1;
+        const exchangeId =
+            occurrences[exchange.time] > 1
+                ? `gemini-${exchange.time}-${occurrences[exchange.time]}`
+                : `gemini-${exchange.time}`;
+        addNode(
+            `${exchangeId}-user`,
+            "user",
+            exchange.prompt,
+            exchange.time,
+            exchange.attachedFiles
+        );
+        if (exchange.response.trim()) {
+            addNode(
+                `${exchangeId}-model`,
+                "assistant",
+                exchange.response,
+                exchange.time
+            );
+        }
+    }
+
+    return {
+        // Derived from the first prompt so that later exports extending the session map to the same note
+        id: `gemini-${Math.floor(firstTime)}`,
+        title: generateTitle(exchanges[0].prompt),
+        provider: "gemini",
+        create_time: firstTime,
+        update_time: exchanges[exchanges.length - 1].time,
+        mapping,
+    };
+}
+
+/**
+ * Takeout records are flat, so prompts closer together than the gap are treated as one conversation.
+ * Prompts within a conversation imported before stay in it, and its first prompt still starts it, so
+ * a changed gap or a newer export never moves prompts to a conversation with another ID.
+ */
+export function groupGeminiExchanges(
+    exchanges: GeminiExchange[],
+    sessionGapMinutes: number,
+    knownSessions: GeminiSession[] = []
+): Chat[] {
+    const findSession = (time: number) =>
+        knownSessions.find(
+            (session) =>
+                Math.floor(time) >= session.start && time <= session.end
+        );
+    const chats: Chat[] = [];
+    let session: GeminiExchange[] = [];
+
+    for (const exchange of exchanges) {
+        const last = session[session.length - 1];
+        const known = findSession(exchange.time);
+        if (
+            last &&
+            (known
+                ? known !== findSession(last.time)
+                : exchange.time - last.time > sessionGapMinutes * 60)
+        ) {
+            chats.push(buildChat(session));
+            session = [];
+        }
+        session.push(exchange);
+    }
+    if (session.length > 0) {
+        chats.push(buildChat(session));
+    }
+
+    return chats;
+}
+
+// Span of a Gemini conversation from its ID and last update, as recorded in the catalog
+export function getGeminiSession(
+    conversationId: string,
+    updateTime: number
+): GeminiSession | undefined {
+    const match = conversationId.match(/^gemini-(\d+)$/);
+    return match ? { start: Number(match[1]), end: updateTime } : undefined;
+}
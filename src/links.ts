@@ -0,0 +1,199 @@
+// links.ts
+import { addTrailingSection, findMessageBlocks, findThreadEnd } from "./merge";
+
+// A note title or alias to look for, and the link text of the note it stands for
+export interface LinkTarget {
+    term: string;
+    note: string;
+}
+
+export interface MentionIndex {
+    pattern: RegExp;
+    notes: Map<string, string>; // Lowercased term -> note
+}
+
+export interface LinkResult {
+    content: string;
+    linked: string[]; // Notes linked by this pass, in order of first mention
+}
+
+const RELATED_HEADING = "## Related notes";
+// The section formatRelatedSection writes, and nothing the user added around it
+const RELATED_SECTION = /^## Related notes\n\n(?:- \[\[.*\]\](?:\n|$))+/m;
+
+// Shorter terms match too many ordinary words
+const MIN_TERM_LENGTH = 3;
+
+// Existing links, code spans, URLs, comments, footnote references and math are never linked inside
+const PROTECTED =
+    /(`+)[^`]*?\1|!?\[\[[^\]]*\]\]|!?\[[^\]]*\]\([^)]*\)|<[^>\n]+>|[a-z][a-z0-9+.-]*:\/\/\S+|\[\^[^\]]*\]|\$\$[^$]*?\$\$|\$[^$\n]+\$/gi;
+
+const WIKILINK = /!?\[\[([^\]|#^]+)[^\]]*\]\]/g;
+
+export function isLinkableTerm(term: string): boolean {
+    return term.length >= MIN_TERM_LENGTH && /\p{L}/u.test(term);
+}
+
+// One pattern for all terms, longest first so "Machine learning" wins over "Machine"
+export function buildMentionIndex(
+    targets: LinkTarget[]
+): MentionIndex | undefined {
+    const notes = new Map<string, string>();
+    for (const { term, note } of targets) {
+        const key = term.toLowerCase();
+        if (isLinkableTerm(term) && !notes.has(key)) notes.set(key, note);
+    }
+    if (notes.size === 0) return undefined;
+
+    const alternatives = Array.from(notes.keys())
+        .sort((a, b) => b.length - a.length)
+        .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    return {
+        pattern: new RegExp(
+            `(^|[^\\p{L}\\p{N}_])(${alternatives.join(
+                "|"
+            )})(?![\\p{L}\\p{N}_])`,
+            "giu"
+        ),
+        notes,
+    };
+}
+
+// Notes the content links to, in order of first link
+function findLinkedNotes(content: string): string[] {
+    const notes: string[] = [];
+    let match;
+    WIKILINK.lastIndex = 0;
+    while ((match = WIKILINK.exec(content)) !== null) {
+        const note = match[1].trim();
+        if (!notes.includes(note)) notes.push(note);
+    }
+    return notes;
+}
+
+function linkLine(
+    line: string,
+    index: MentionIndex,
+    linked: Set<string>,
+    added: string[]
+): string {
+    const link = (text: string) =>
+        text.replace(index.pattern, (match, before: string, term: string) => {
+            const note = index.notes.get(term.toLowerCase());
+            if (!note || linked.has(note.toLowerCase())) return match;
+            linked.add(note.toLowerCase());
+            added.push(note);
+            return `${before}[[${note === term ? note : `${note}|${term}`}]]`;
+        });
+
+    let result = "";
+    let last = 0;
+    let match;
+    PROTECTED.lastIndex = 0;
+    while ((match = PROTECTED.exec(line)) !== null) {
+        result += link(line.substring(last, match.index)) + match[0];
+        last = match.index + match[0].length;
+    }
+    return result + link(line.substring(last));
+}
+
+// Message text line by line, leaving code blocks, display math, headings and callout titles alone
+function linkBody(
+    body: string,
+    index: MentionIndex,
+    linked: Set<string>,
+    added: string[]
+): string {
+    let fence: string | undefined;
+    let inMath = false;
+    return body
+        .split("\n")
+        .map((line) => {
+            const text = line.replace(/^(?:>\s?)*\s*/, "");
+            const marker = text.match(/^(`{3,}|~{3,})/);
+            if (marker) {
+                if (!fence) fence = marker[1];
+                else if (marker[1].startsWith(fence)) fence = undefined;
+                return line;
+            }
+            if (fence) return line;
+
+            // `$$` blocks spanning lines; a block opened and closed on one line is protected like inline math
+            const mathDelimiters = (text.match(/\$\$/g) || []).length;
+            if (mathDelimiters % 2 === 1) {
+                inMath = !inMath;
+                return line;
+            }
+            if (inMath || /^(#|\[!)/.test(text)) return line;
+            return linkLine(line, index, linked, added);
+        })
+        .join("\n");
+}
+
+/**
+ * Turn the first mention of each note into a wikilink, within the message blocks of a note (only those
+ * in `messageIds` when given). Notes the content already links to are not linked again.
+ */
+export function linkMentions(
+    content: string,
+    index: MentionIndex,
+    messageIds?: Set<string>
+): LinkResult {
+    const linked = new Set(
+        findLinkedNotes(content).map((note) => note.toLowerCase())
+    );
+    const added: string[] = [];
+
+    let result = "";
+    let last = 0;
+    for (const block of findMessageBlocks(content)) {
+        if (messageIds && !messageIds.has(block.id)) continue;
+        result +=
+            content.substring(last, block.bodyStart) +
+            linkBody(
+                content.substring(block.bodyStart, block.uidStart),
+                index,
+                linked,
+                added
+            );
+        last = block.uidStart;
+    }
+
+    return { content: result + content.substring(last), linked: added };
+}
+
+// Notes listed in the Related notes section
+export function findRelatedNotes(content: string): string[] {
+    const match = content
+        .substring(findThreadEnd(content))
+        .match(RELATED_SECTION);
+    return match ? findLinkedNotes(match[0]) : [];
+}
+
+function formatRelatedSection(notes: string[]): string {
+    if (notes.length === 0) return "";
+    return `${RELATED_HEADING}\n\n${notes
+        .map((note) => `- [[${note}]]`)
+        .join("\n")}\n`;
+}
+
+// Replace the Related notes section where it is, or add it before the Sources section or at the end, above the user notes
+export function setRelatedSection(content: string, notes: string[]): string {
+    const section = formatRelatedSection(notes);
+    // Sections are only looked for below the thread: a message may hold headings of the same name
+    const threadEnd = findThreadEnd(content);
+    const thread = content.substring(0, threadEnd);
+    const trailing = content.substring(threadEnd);
+    if (RELATED_SECTION.test(trailing)) {
+        return thread + trailing.replace(RELATED_SECTION, () => section);
+    }
+    if (!section) return content;
+
+    const sources = trailing.search(/^## Sources$/m);
+    return sources >= 0
+        ? `${thread}${trailing.substring(
+              0,
+              sources
+          )}${section}\n${trailing.substring(sources)}`
+        : addTrailingSection(content, section);
+}
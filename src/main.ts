@@ -10,6 +10,7 @@ import {
     App,
     PluginManifest,
     MarkdownView,
+    parseFrontMatterAliases,
 } from "obsidian";
 
 import JSZip from "jszip";
@@ -21,6 +22,20 @@ import {
     ConversationCatalogEntry,
     CustomError,
     ConfirmationDialogOptions,
+    Provider,
+    EchoesDocument,
+    ChatBranch,
+    ChatNode,
+    BranchHandling,
+    NoteLayout,
+    MessagePart,
+    MessageAttachment,
+    MessageDisplay,
+    ToolMessageType,
+    CanvasDocument,
+    PropertyValue,
+    MessageStyle,
+    ImportedArchive,
 } from "./types";
 
 import {
@@ -36,21 +51,183 @@ import {
     getConversationId,
     checkAnyNexusFilesActive,
     getProvider,
+    getCatalogKey,
+    generateFolderFromPattern,
+    generateFileNameFromTemplate,
+    getShortId,
+    getAssistantLabel,
+    getConversationUrl,
+    getEchoesMembers,
+    isEchoesZip,
+    hashString,
 } from "./utils";
 
 import { Logger } from "./logger";
 
-import { showDialog } from "./dialogs";
+import { showDialog, showPreview } from "./dialogs";
 
 import { Upgrader } from "./upgrade";
 
+import { isClaudeExport, convertClaudeConversation } from "./claude";
+
+import {
+    findGeminiActivityFile,
+    parseGeminiActivity,
+    groupGeminiExchanges,
+    getGeminiSession,
+    GeminiSession,
+} from "./gemini";
+
+import { convertWebUiExport } from "./webui";
+
+import { isUneditedEchoesText, parseEchoesDocument } from "./echoes";
+
+import {
+    getActivePath,
+    getActiveMessages,
+    getAlternateBranches,
+    getNestedBranches,
+} from "./tree";
+
+import {
+    addFingerprint,
+    findMessageBlocks,
+    findMessageIds,
+    findThreadEnd,
+    mergeMessages,
+    MessageBlock,
+    MessageChanges,
+    MESSAGE_START,
+    USER_NOTES_MARKER,
+} from "./merge";
+
+import { getChatDetails } from "./details";
+
+import { CatalogState, CatalogStore } from "./store";
+
+import { ImportPreview } from "./preview";
+
+import {
+    DEFAULT_CONVERSATION_FILTER,
+    pickConversations,
+    PickerItem,
+} from "./picker";
+
+import {
+    formatRebuildReport,
+    getCatalogEntry,
+    rebuildCatalog,
+    renameCatalogPaths,
+} from "./catalog";
+
+import {
+    countWords,
+    formatIsoTime,
+    formatProperty,
+    migrateProperties,
+    setProperties,
+} from "./properties";
+
+import {
+    DEFAULT_HEADER_TEMPLATE,
+    DEFAULT_MESSAGE_TEMPLATE,
+    NoteTemplates,
+    checkHeaderTemplate,
+    parseTemplateNote,
+    renderTemplate,
+} from "./templates";
+
+import { AttachmentExtractor, isImagePart } from "./attachments";
+
+import {
+    TOOL_MESSAGE_LABELS,
+    getToolMessageType,
+    getToolContentText,
+    formatToolCallout,
+} from "./tools";
+
+import {
+    collectCanvasDocuments,
+    getCanvasExtension,
+    isCodeCanvas,
+} from "./canvas";
+
+import {
+    CitationSource,
+    collectSources,
+    getDomain,
+    replaceCitations,
+    setSourcesSection,
+} from "./citations";
+
+import { normalizeMath } from "./math";
+
+import {
+    buildMentionIndex,
+    findRelatedNotes,
+    LinkTarget,
+    linkMentions,
+    MentionIndex,
+    setRelatedSection,
+} from "./links";
+
+import {
+    Exchange,
+    EXCHANGES_HEADING,
+    findExchangeLinks,
+    addExchangeLink,
+    formatExchangeLink,
+    getExchangeTitle,
+    groupExchanges,
+    isExchangeIndex,
+} from "./exchanges";
+
 // Constants
+const PROVIDER_LABELS: Record<Provider, string> = {
+    chatgpt: "ChatGPT",
+    claude: "Claude",
+    gemini: "Gemini",
+    echoes: "Echoes",
+    openwebui: "Open WebUI",
+    librechat: "LibreChat",
+    openai: "OpenAI-style JSON",
+};
+
 const DEFAULT_SETTINGS: PluginSettings = {
     archiveFolder: "Nexus AI Chat Imports",
     addDatePrefix: false,
     dateFormat: "YYYY-MM-DD",
+    fileNameTemplate: "",
+    maxFileNameLength: 100,
+    transliterateFileNames: false,
     hasShownUpgradeNotice: false, // Keep this as it is
     hasCompletedUpgrade: false, // Initialize to false
+    geminiSessionGap: 30,
+    branchHandling: "collapse",
+    noteLayout: "conversation",
+    autoLink: false,
+    autoLinkExclude: "",
+    userNotesSection: false,
+    previewImports: false,
+    selectConversations: false,
+    conversationFilter: DEFAULT_CONVERSATION_FILTER,
+    attachmentFolder: "Attachments",
+    messageStyle: "quote",
+    folderPattern: "{year}/{month}",
+    providerFolderPatterns: {},
+    tags: "ai-chat",
+    templateNotePath: "",
+    headerTemplate: "",
+    messageTemplate: "",
+    toolMessageDisplay: {
+        system: "collapse",
+        tool: "collapse",
+        code: "collapse",
+        execution_output: "collapse",
+        tether_browsing_display: "collapse",
+        tether_quote: "collapse",
+        system_error: "collapse",
+    },
 };
 
 export default class NexusAiChatImporterPlugin extends Plugin {
@@ -64,14 +241,43 @@ export default class NexusAiChatImporterPlugin extends Plugin {
         super(app, manifest);
         this.clickListenerActive = false; // Click listener state
         this.handleClickBound = this.handleClick.bind(this); // Bind click handler
+        this.catalogStore = new CatalogStore(
+            app.vault,
+            this.getDeviceId(),
+            () => `${this.settings.archiveFolder}/Catalog`
+        );
+    }
+
+    // Random ID kept in this device's local storage, naming its catalog file
+    private getDeviceId(): string {
+        const key = "nexus-ai-chat-importer-device";
+        let id = this.app.loadLocalStorage(key);
+        if (typeof id !== "string" || !/^[0-9a-f]{8}$/.test(id)) {
+            id = Math.floor(Math.random() * 0x100000000)
+                .toString(16)
+                .padStart(8, "0");
+            this.app.saveLocalStorage(key, id);
+        }
+        return id;
     }
 
     // Properties
     private importReport: ImportReport = new ImportReport(); // Initialize import report
-    private importedArchives: Record<
-        string,
-        { fileName: string; date: string }
-    > = {}; // Stores imported archives
+    private attachmentExtractor?: AttachmentExtractor; // Set while importing an archive that holds assets
+    private mentionIndex?: MentionIndex; // Vault notes to link to, when auto-linking is on
+    private conversationNotes?: Map<string, TFile>; // Catalog key -> note, read once per import when a note has moved
+    private preview?: ImportPreview; // Set while previewing an import, which then writes nothing
+    private confirmedArchives = new Set<string>(); // Already imported files the preview was confirmed for
+    private conversationPicks = new Map<File, Set<string>>(); // Chosen per file, kept from a preview to its import
+    private partialImports = new Set<File>(); // Files imported in part, which are not marked as imported
+    private templates: NoteTemplates = {
+        header: DEFAULT_HEADER_TEMPLATE,
+        message: DEFAULT_MESSAGE_TEMPLATE,
+    };
+    private importedArchives: Record<string, ImportedArchive> = {}; // Stores imported archives
+    private catalogStore: CatalogStore; // Keeps the catalog and imported archives in the vault
+    private catalogLoaded = false; // The catalog is only saved once it has been read from the vault
+    private legacyCatalog?: CatalogState; // Catalog of an earlier version, kept in the plugin data until written to the vault
 
     // Group Conversation Counters
     private conversationCounters = {
@@ -97,16 +303,99 @@ export default class NexusAiChatImporterPlugin extends Plugin {
             DEFAULT_SETTINGS,
             data?.settings || {}
         );
-        this.importedArchives = data?.importedArchives || {};
-        this.conversationCatalog = data?.conversationCatalog || {};
+        // Keep defaults for message types added after the settings were saved
+        this.settings.toolMessageDisplay = {
+            ...DEFAULT_SETTINGS.toolMessageDisplay,
+            ...(data?.settings?.toolMessageDisplay || {}),
+        };
+        this.settings.providerFolderPatterns = {
+            ...(data?.settings?.providerFolderPatterns || {}),
+        };
+        this.settings.conversationFilter = {
+            ...DEFAULT_CONVERSATION_FILTER,
+            ...(data?.settings?.conversationFilter || {}),
+        };
+
+        // Earlier versions kept the catalog in the plugin data, which is moved to the vault once
+        this.legacyCatalog =
+            data?.conversationCatalog || data?.importedArchives
+                ? {
+                      conversations: this.migrateCatalogKeys(
+                          data.conversationCatalog || {}
+                      ),
+                      archives: data.importedArchives || {},
+                  }
+                : undefined;
+        await this.loadCatalog();
+    }
+
+    // Merge the catalog files written by every device that shares the vault, false when they could not be read
+    private async loadCatalog(): Promise<boolean> {
+        try {
+            const { state, conflictCopies } = await this.catalogStore.load(
+                this.legacyCatalog
+            );
+            this.conversationCatalog = this.migrateCatalogKeys(
+                state.conversations
+            );
+            this.importedArchives = state.archives;
+            conflictCopies.forEach((path) =>
+                this.logger.info(
+                    `Merged and removed catalog conflict copy ${path}`
+                )
+            );
+            this.catalogLoaded = true;
+        } catch (error: unknown) {
+            this.catalogLoaded = false;
+            this.logger.error(
+                "Error loading catalog",
+                error instanceof Error ? error.message : error
+            );
+            return false;
+        }
+        if (this.legacyCatalog) {
+            // The load wrote it to the vault, so the plugin data no longer needs it
+            this.legacyCatalog = undefined;
+            await this.saveSettings();
+        }
+        return true;
+    }
+
+    // Catalogs saved before provider namespacing were keyed by conversation ID only
+    private migrateCatalogKeys(
+        catalog: Record<string, ConversationCatalogEntry>
+    ): Record<string, ConversationCatalogEntry> {
+        const migrated: Record<string, ConversationCatalogEntry> = {};
+        for (const entry of Object.values(catalog)) {
+            if (!entry || typeof entry !== "object") continue; // Drop malformed entries
+            const provider = entry.provider || "chatgpt";
+            migrated[getCatalogKey(provider, entry.conversationId)] = {
+                ...entry,
+                provider,
+            };
+        }
+        return migrated;
+    }
+
+    // Write the settings, along with a legacy catalog that has not reached the vault yet
+    private async saveSettingsData() {
+        await this.saveData({
+            settings: this.settings,
+            ...(this.legacyCatalog && {
+                conversationCatalog: this.legacyCatalog.conversations,
+                importedArchives: this.legacyCatalog.archives,
+            }),
+        });
     }
 
     async saveSettings() {
         try {
-            await this.saveData({
-                settings: this.settings,
-                importedArchives: this.importedArchives,
-                conversationCatalog: this.conversationCatalog,
+            await this.saveSettingsData();
+            // The catalog is the preview's copy, or was never read and would overwrite the vault's
+            if (this.preview || !this.catalogLoaded) return;
+            await this.catalogStore.save({
+                conversations: this.conversationCatalog,
+                archives: this.importedArchives,
             });
         } catch (error) {
             this.logger.error("Error saving settings", error);
@@ -141,27 +430,36 @@ export default class NexusAiChatImporterPlugin extends Plugin {
         // Register an event to handle file deletion
         this.registerEvent(
             this.app.vault.on("delete", async (file) => {
+                // Matched by path: exchange notes share the conversation ID of their index note
                 if (file instanceof TFile) {
-                    const frontmatter =
-                        this.app.metadataCache.getFileCache(file)?.frontmatter;
-                    if (frontmatter?.conversation_id) {
-                        for (const [id, record] of Object.entries(
-                            this.conversationCatalog
-                        )) {
-                            if (
-                                record.conversationId ===
-                                frontmatter.conversation_id
-                            ) {
-                                delete this.conversationCatalog[id];
-                                await this.saveSettings();
-                                break;
-                            }
+                    for (const [id, record] of Object.entries(
+                        this.conversationCatalog
+                    )) {
+                        if (record.path === file.path) {
+                            delete this.conversationCatalog[id];
+                            await this.saveSettings();
+                            break;
                         }
                     }
                 }
             })
         );
 
+        // Keep catalog paths current when notes or their folders are renamed or moved
+        this.registerEvent(
+            this.app.vault.on("rename", async (file, oldPath) => {
+                if (
+                    renameCatalogPaths(
+                        this.conversationCatalog,
+                        oldPath,
+                        file.path
+                    )
+                ) {
+                    await this.saveSettings();
+                }
+            })
+        );
+
         // Register an event to detect if active file is from this plugin or not
         this.registerEvent(
             this.app.workspace.on("active-leaf-change", (leaf) => {
@@ -192,6 +490,14 @@ export default class NexusAiChatImporterPlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: "nexus-ai-chat-importer-preview-import",
+            name: "Preview import of files",
+            callback: () => {
+                this.selectZipFile(true);
+            },
+        });
+
         // Register a command to reset the import catalogs
         this.addCommand({
             id: "reset-nexus-ai-chat-importer-catalogs",
@@ -217,10 +523,77 @@ export default class NexusAiChatImporterPlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: "nexus-ai-chat-importer-rebuild-catalog",
+            name: "Rebuild catalog from vault",
+            callback: () => this.rebuildCatalogFromVault(),
+        });
+
+        this.addCommand({
+            id: "nexus-ai-chat-importer-migrate-properties",
+            name: "Update properties of imported notes",
+            callback: async () => {
+                const count = await this.migrateNoteProperties();
+                new Notice(`Updated the properties of ${count} notes.`);
+            },
+        });
+
         const upgrader = new Upgrader(this);
         await upgrader.checkForUpgrade();
     }
 
+    // Rewrite dates, aliases and counts of catalogued notes written by earlier versions
+    async migrateNoteProperties(): Promise<number> {
+        let count = 0;
+        for (const entry of Object.values(this.conversationCatalog)) {
+            const file = this.app.vault.getAbstractFileByPath(entry.path);
+            if (!(file instanceof TFile)) continue;
+            try {
+                const content = await this.app.vault.read(file);
+                const migrated = migrateProperties(content, this.getTags());
+                if (migrated !== content) {
+                    await this.app.vault.modify(file, migrated);
+                    count++;
+                }
+            } catch (error: unknown) {
+                this.logger.error(
+                    `Failed to update properties of ${entry.path}`,
+                    error instanceof Error ? error.message : error
+                );
+            }
+        }
+        return count;
+    }
+
+    // Catalog every imported conversation note in the vault, and report what no longer matches
+    async rebuildCatalogFromVault(): Promise<void> {
+        const notes = this.app.vault.getMarkdownFiles().map((file) => ({
+            path: file.path,
+            frontmatter: this.app.metadataCache.getFileCache(file)?.frontmatter,
+        }));
+        const { catalog, duplicates, orphans } = rebuildCatalog(
+            notes,
+            this.conversationCatalog
+        );
+        this.conversationCatalog = catalog;
+        await this.saveSettings();
+
+        let summary = `Catalogued ${
+            Object.keys(catalog).length
+        } conversations.`;
+        if (duplicates.length > 0 || orphans.length > 0) {
+            const reportPath = await this.getReportPath("catalog rebuild");
+            if (reportPath) {
+                await this.writeToFile(
+                    reportPath,
+                    formatRebuildReport(duplicates, orphans)
+                );
+                summary += ` ${duplicates.length} duplicates and ${orphans.length} orphaned entries are listed in ${reportPath}.`;
+            }
+        }
+        new Notice(summary);
+    }
+
     async onunload() {
         // Remove the click listener if it's active
         if (this.clickListenerActive) {
@@ -298,8 +671,11 @@ export default class NexusAiChatImporterPlugin extends Plugin {
                 const conversationId = getConversationId(file);
                 if (conversationId) {
                     const provider = getProvider(activeFile);
-                    if (provider === "chatgpt") {
-                        const url = `https://chatgpt.com/c/${conversationId}`;
+                    const url = getConversationUrl(
+                        provider as Provider | undefined,
+                        conversationId
+                    );
+                    if (url) {
                         const conversationMessage = `Original conversation URL: ${url}\nDo you want to go there?\nIf the conversation has been deleted, it will not show.`;
 
                         const userConfirmed = await showDialog(
@@ -326,6 +702,181 @@ export default class NexusAiChatImporterPlugin extends Plugin {
 
     // Core functionality methods
     async handleZipFile(file: File) {
+        await this.importFile(file, async () => {
+            const zip = await this.validateZipFile(file); // Validate the ZIP file
+            const fileNames = Object.keys(zip.files);
+            if (isEchoesZip(fileNames) && !findGeminiActivityFile(fileNames)) {
+                const documents = await this.extractEchoesDocumentsFromZip(zip);
+                await this.processConversations(
+                    documents.map(parseEchoesDocument),
+                    file
+                );
+            } else {
+                this.attachmentExtractor = new AttachmentExtractor(
+                    this.app.vault,
+                    zip,
+                    `${this.settings.archiveFolder}/${this.settings.attachmentFolder}`,
+                    this.preview
+                );
+                try {
+                    await this.processConversations(
+                        await this.extractChatsFromZip(zip),
+                        file
+                    );
+                } finally {
+                    this.attachmentExtractor = undefined;
+                }
+            }
+        });
+    }
+
+    async handleJsonFile(file: File) {
+        await this.importFile(file, async () => {
+            const chats = convertWebUiExport(
+                JSON.parse(await file.text()),
+                file.name
+            );
+            if (chats.length === 0) {
+                throw new NexusAiChatImporterError(
+                    "Invalid JSON structure",
+                    "No conversations found in the JSON file"
+                );
+            }
+            await this.processConversations(chats, file);
+        });
+    }
+
+    // The template note takes precedence over the settings fields; empty templates use the built-in layout
+    private async loadTemplates() {
+        let { headerTemplate, messageTemplate } = this.settings;
+
+        const templatePath = this.settings.templateNotePath.trim();
+        if (templatePath) {
+            const file = this.app.vault.getAbstractFileByPath(
+                templatePath.endsWith(".md")
+                    ? templatePath
+                    : `${templatePath}.md`
+            );
+            if (file instanceof TFile) {
+                const templates = parseTemplateNote(
+                    await this.app.vault.read(file)
+                );
+                headerTemplate = templates.header ?? headerTemplate;
+                messageTemplate = templates.message ?? messageTemplate;
+            } else {
+                new Notice(
+                    `Template note "${templatePath}" not found. Using the templates from the settings.`
+                );
+            }
+        }
+
+        this.templates = {
+            header: headerTemplate || DEFAULT_HEADER_TEMPLATE,
+            message: messageTemplate || DEFAULT_MESSAGE_TEMPLATE,
+        };
+
+        const problems = checkHeaderTemplate(this.templates.header);
+        if (problems.length > 0) {
+            this.logger.warn("Template keeps notes from updating:", problems);
+            new Notice(
+                `The header template keeps imported notes from updating:\n${problems.join(
+                    "\n"
+                )}`
+            );
+        }
+    }
+
+    // Titles and aliases of vault notes outside the import folder, minus the excluded notes, folders and terms
+    private getLinkTargets(): LinkTarget[] {
+        const excluded = this.settings.autoLinkExclude
+            .split(/[\n,]/)
+            .map((entry) => entry.trim().replace(/\/$/, "").toLowerCase())
+            .filter((entry) => entry);
+        const isExcluded = (value: string) => {
+            const lower = value.toLowerCase();
+            return excluded.some(
+                (entry) => lower === entry || lower.startsWith(`${entry}/`)
+            );
+        };
+
+        const targets: LinkTarget[] = [];
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (
+                file.path.startsWith(`${this.settings.archiveFolder}/`) ||
+                isExcluded(file.path.replace(/\.md$/, "")) ||
+                isExcluded(file.basename)
+            ) {
+                continue;
+            }
+            const note = this.app.metadataCache.fileToLinktext(file, "", true);
+            const aliases =
+                parseFrontMatterAliases(
+                    this.app.metadataCache.getFileCache(file)?.frontmatter
+                ) || [];
+            for (const term of [file.basename, ...aliases]) {
+                if (!isExcluded(term)) targets.push({ term, note });
+            }
+        }
+        return targets;
+    }
+
+    /**
+     * Link the first mention of each vault note in the messages (only `messageIds` when given) and add
+     * the linked notes to the "Related notes" section.
+     */
+    private linkNoteMentions(
+        content: string,
+        messageIds?: Set<string>
+    ): string {
+        if (!this.mentionIndex) return content;
+        const notes = findRelatedNotes(content);
+        const result = linkMentions(content, this.mentionIndex, messageIds);
+        notes.push(...result.linked.filter((note) => !notes.includes(note)));
+        return setRelatedSection(result.content, notes);
+    }
+
+    // One import at a time across devices, starting from the catalog as other devices left it
+    private async importFile(file: File, processFile: () => Promise<void>) {
+        // A preview writes nothing, so it neither needs nor takes the lock
+        if (this.preview) {
+            await this.runImport(file, processFile);
+            return;
+        }
+
+        let lock;
+        try {
+            lock = await this.catalogStore.acquireLock();
+        } catch (error: unknown) {
+            this.logger.error(
+                "Error taking the import lock",
+                error instanceof Error ? error.message : error
+            );
+            new Notice("Import cancelled: the catalog folder is not writable.");
+            return;
+        }
+        if (lock) {
+            new Notice(
+                `Import cancelled: another device started an import at ${new Date(
+                    lock.at
+                ).toLocaleTimeString()}. Try again once it has finished and synced.`
+            );
+            return;
+        }
+
+        try {
+            if (!(await this.loadCatalog())) {
+                new Notice(
+                    "Import cancelled: the catalog could not be read. Check console for details."
+                );
+                return;
+            }
+            await this.runImport(file, processFile);
+        } finally {
+            await this.catalogStore.releaseLock();
+        }
+    }
+
+    private async runImport(file: File, processFile: () => Promise<void>) {
         this.importReport = new ImportReport(); // Initialize the import log at the beginning
 
         // Resetting counters before processing a new ZIP file
@@ -349,7 +900,18 @@ export default class NexusAiChatImporterPlugin extends Plugin {
             const fileHash = await getFileHash(file);
 
             // Check if the archive has already been imported
-            if (this.importedArchives[fileHash]) {
+            if (this.preview && this.importedArchives[fileHash]) {
+                this.preview.markReimported(
+                    fileHash,
+                    formatTimestamp(
+                        Date.parse(this.importedArchives[fileHash].date) / 1000,
+                        "date"
+                    )
+                );
+            } else if (
+                this.importedArchives[fileHash] &&
+                !this.confirmedArchives.has(fileHash)
+            ) {
                 const shouldReimport = await showDialog(
                     this.app, // Pass the app instance
                     "confirmation", // Type of dialog
@@ -370,8 +932,13 @@ export default class NexusAiChatImporterPlugin extends Plugin {
                 }
             }
 
-            const zip = await this.validateZipFile(file); // Validate the ZIP file
-            await this.processConversations(zip, file); // Process the conversations in the ZIP
+            await this.loadTemplates();
+            this.mentionIndex = this.settings.autoLink
+                ? buildMentionIndex(this.getLinkTargets())
+                : undefined;
+            this.conversationNotes = undefined;
+            await processFile(); // Process the conversations in the file
+            if (this.preview || this.partialImports.has(file)) return;
 
             // Update imported archives with the new entry
             this.importedArchives[fileHash] = {
@@ -388,93 +955,115 @@ export default class NexusAiChatImporterPlugin extends Plugin {
                 ? error.message
                 : "An unknown error occurred";
 
-            this.logger.error("Error handling zip file", { message });
+            this.logger.error("Error handling import file", { message });
         } finally {
             // This will always run, even if there's an error
-            await this.writeImportReport(file.name);
-            new Notice(
-                this.importReport.hasErrors()
-                    ? "An error occurred during import. Please check the log file for details."
-                    : "Import completed. Log file created in the archive folder."
-            );
+            if (this.preview) {
+                this.preview.addFile(
+                    file.name,
+                    this.importReport.generateReportContent()
+                );
+            } else {
+                await this.writeImportReport(file.name);
+                new Notice(
+                    this.importReport.hasErrors()
+                        ? "An error occurred during import. Please check the log file for details."
+                        : "Import completed. Log file created in the archive folder."
+                );
+            }
         }
     }
 
     async handleEchoesFile(file: File) {
-        try {
-            const text = await file.text();
-            const { metadata, conversation } = this.parseEchoesMarkdown(text);
-            const created = metadata.created ? Date.parse(metadata.created) / 1000 : Math.floor(Date.now() / 1000);
-            const updated = metadata.updated ? Date.parse(metadata.updated) / 1000 : created;
-            const filePath = await this.generateFilePath(
-                metadata.title || file.name.replace(/\.md$/, ""),
-                created,
-                this.settings.dateFormat,
-                this.settings.archiveFolder
-            );
+        await this.importFile(file, async () => {
+            const chat = parseEchoesDocument({
+                name: file.name,
+                text: await file.text(),
+            });
+            await this.processConversations([chat], file);
+        });
+    }
 
-            let content = `---\n` +
-                `nexus: ${this.manifest.id}\n` +
-                `provider: echoes\n` +
-                `aliases: "${metadata.title || file.name}"\n` +
-                (metadata.id ? `conversation_id: ${metadata.id}\n` : "") +
-                (metadata.url ? `url: ${metadata.url}\n` : "") +
-                `create_time: ${formatTimestamp(created, "date")} at ${formatTimestamp(created, "time")}\n` +
-                `update_time: ${formatTimestamp(updated, "date")} at ${formatTimestamp(updated, "time")}\n` +
-                `---\n\n`;
-
-            content += conversation;
-
-            await this.writeToFile(filePath, content);
-
-            if (metadata.id) {
-                this.conversationCatalog[metadata.id] = {
-                    conversationId: metadata.id,
-                    path: filePath,
-                    updateTime: updated,
-                    provider: "echoes",
-                };
+    private async extractEchoesDocumentsFromZip(
+        zip: JSZip
+    ): Promise<EchoesDocument[]> {
+        const documents: EchoesDocument[] = [];
+        for (const name of getEchoesMembers(Object.keys(zip.files)).sort()) {
+            const text = await zip.file(name)?.async("string");
+            if (text !== undefined) {
+                documents.push({ name: name.split("/").pop() || name, text });
             }
-
-            await this.saveSettings();
-        } catch (err) {
-            this.logger.error("Error processing Echoes file", err);
         }
+        return documents;
     }
 
-    private parseEchoesMarkdown(text: string): { metadata: any; conversation: string } {
-        const metaMatch = text.match(/## Overview\n([\s\S]*?)\n\n## Conversation/);
-        const metadata: Record<string, string> = {};
-        if (metaMatch) {
-            const lines = metaMatch[1].split(/\r?\n/);
-            for (const line of lines) {
-                const m = line.match(/- \*\*(.+?)\*\*:\s*(.*)/);
-                if (m) {
-                    const key = m[1].toLowerCase().replace(/\s+/g, "");
-                    metadata[key] = m[2];
-                }
+    // The conversations of the file chosen in the picker, when choosing is on
+    private async pickConversations(
+        chats: Chat[],
+        file: File
+    ): Promise<Chat[]> {
+        if (!this.settings.selectConversations || chats.length < 2) {
+            return chats;
+        }
+
+        let keys = this.conversationPicks.get(file);
+        if (!keys) {
+            const result = await pickConversations(
+                this.app,
+                chats.map((chat) => this.getPickerItem(chat)),
+                this.settings.conversationFilter
+            );
+            // Only the filter is saved: during a preview the catalog holds what the preview recorded
+            this.settings.conversationFilter = result.filter;
+            await this.saveSettingsData();
+            if (!result.keys) {
+                new Notice(`No conversations imported from ${file.name}.`);
             }
+            keys = new Set(result.keys || []);
+            this.conversationPicks.set(file, keys);
         }
-        const conversationIndex = text.indexOf("## Conversation");
-        const conversation = conversationIndex >= 0 ? text.substring(conversationIndex) : text;
+
+        const picked = chats.filter((chat) =>
+            keys?.has(getCatalogKey(chat.provider, chat.id))
+        );
+        if (picked.length < chats.length) this.partialImports.add(file);
+        return picked;
+    }
+
+    private getPickerItem(chat: Chat): PickerItem {
+        const key = getCatalogKey(chat.provider, chat.id);
+        const record = this.conversationCatalog[key];
+        const messages = this.getDisplayedMessages(chat);
+        const { models, gpt, project } = getChatDetails(chat);
         return {
-            metadata: {
-                title: metadata.title || metadata.id || "Untitled",
-                url: metadata.url,
-                id: metadata.id,
-                created: metadata.created,
-                updated: metadata["lastupdated"] || metadata.updated,
-            },
-            conversation,
+            key,
+            title: chat.title,
+            createTime: chat.create_time,
+            models,
+            gpt,
+            project,
+            messageCount: messages.length,
+            status: !record
+                ? "new"
+                : record.updateTime < chat.update_time
+                ? "changed"
+                : "unchanged",
+            // Searched message by message, so the text is never held twice for thousands of conversations
+            matches: (query) =>
+                (chat.title || "").toLowerCase().includes(query) ||
+                messages.some((message) =>
+                    (this.getMessageText(message) || "")
+                        .toLowerCase()
+                        .includes(query)
+                ),
         };
     }
 
-    async processConversations(zip: JSZip, file: File): Promise<void> {
+    async processConversations(chats: Chat[], file: File): Promise<void> {
         try {
-            const chats = await this.extractChatsFromZip(zip);
             const existingConversations = this.conversationCatalog;
 
-            for (const chat of chats) {
+            for (const chat of await this.pickConversations(chats, file)) {
                 await this.processSingleChat(chat, existingConversations);
             }
 
@@ -507,25 +1096,19 @@ export default class NexusAiChatImporterPlugin extends Plugin {
         try {
             const file = this.app.vault.getAbstractFileByPath(filePath);
             if (file instanceof TFile) {
+                await this.attachmentExtractor?.resolveChat(chat);
+                await this.writeCanvasNotes(chat, filePath);
                 let content = await this.app.vault.read(file);
                 let originalContent = content;
 
                 content = this.updateMetadata(content, chat.update_time);
-
-                const existingMessageIds =
-                    this.extractMessageUIDsFromNote(content);
-                const newMessages = this.getNewMessages(
-                    chat,
-                    existingMessageIds
-                );
-
-                if (newMessages.length > 0) {
-                    content += "\n\n" + this.formatNewMessages(newMessages);
-                    this.conversationCounters
-                        .totalConversationsActuallyUpdated++;
-                    this.messageCounters.totalNonEmptyMessagesAdded +=
-                        newMessages.length;
-                }
+                content = isExchangeIndex(content)
+                    ? await this.updateExchangeIndex(chat, filePath, content)
+                    : await this.updateConversationNote(
+                          chat,
+                          filePath,
+                          content
+                      );
 
                 if (content !== originalContent) {
                     await this.writeToFile(filePath, content);
@@ -575,113 +1158,464 @@ export default class NexusAiChatImporterPlugin extends Plugin {
         }
     }
 
-    private async createNewNote(
+    // Merge the conversation into a note holding all of its messages
+    private async updateConversationNote(
         chat: Chat,
         filePath: string,
-        existingConversations: Record<string, ConversationCatalogEntry> // Change this line
-    ): Promise<void> {
-        try {
-            const content = this.generateMarkdownContent(chat);
-            await this.writeToFile(filePath, content);
+        content: string
+    ): Promise<string> {
+        // Echoes notes from earlier versions hold the raw export text without message UIDs
+        const legacyConversationIndex = content.indexOf("\n## Conversation");
+        if (
+            chat.provider === "echoes" &&
+            this.extractMessageUIDsFromNote(content).length === 0 &&
+            legacyConversationIndex >= 0
+        ) {
+            const legacyText = content.substring(legacyConversationIndex + 1);
+            content =
+                content.substring(0, legacyConversationIndex + 1) +
+                this.generateMessagesContent(chat, filePath);
+            // Text written into the conversation since is kept below the messages, where updates never go
+            if (!isUneditedEchoesText(legacyText, chat)) {
+                content = `${content.trimEnd()}\n\n${USER_NOTES_MARKER}\n## Earlier import\n\n${legacyText
+                    .replace(/^## Conversation\n/, "")
+                    .trim()}\n`;
+            }
+        }
 
-            const messageCount = Object.values(chat.mapping).filter((msg) =>
-                isValidMessage(msg.message)
-            ).length;
+        // Place new messages within the thread and refresh edited ones
+        const merge = mergeMessages(
+            content,
+            this.getDisplayedMessages(chat),
+            (message) => this.formatMessage(message, chat.provider)
+        );
+        content = merge.content;
 
-            this.importReport.addCreated(
-                chat.title || "Untitled",
-                filePath,
-                `${formatTimestamp(chat.create_time, "date")} ${formatTimestamp(
-                    chat.create_time,
-                    "time"
-                )}`,
-                `${formatTimestamp(chat.update_time, "date")} ${formatTimestamp(
-                    chat.update_time,
-                    "time"
-                )}`,
-                messageCount
-            );
-            this.conversationCounters
-                .totalNewConversationsSuccessfullyImported++;
-            this.messageCounters.totalNonEmptyMessagesToImport += messageCount;
+        this.recordMessageChanges(chat, filePath, merge);
 
-            // Add the new conversation to existingConversations
-            existingConversations[chat.id] = filePath;
-        } catch (error: CustomError) {
-            this.logger.error("Error creating new note", error.message);
-            this.importReport.addFailed(
-                chat.title || "Untitled",
-                filePath,
-                formatTimestamp(chat.create_time, "date") +
-                    " " +
-                    formatTimestamp(chat.create_time, "time"),
-                formatTimestamp(chat.update_time, "date") +
-                    " " +
-                    formatTimestamp(chat.update_time, "time"),
-                error.message
-            );
-            throw error;
-        }
+        content = this.insertNewBranches(chat, filePath, content);
+        await this.writeBranchNotes(chat, filePath);
+
+        // New messages and messages rewritten from the source are linked like a new note
+        content = this.linkNoteMentions(content, this.getChangedIds(merge));
+
+        const sources = this.getNoteSources(chat);
+        return setSourcesSection(
+            setProperties(content, this.getNoteProperties(chat, sources)),
+            sources
+        );
     }
 
-    // Helper methods
-    private async extractChatsFromZip(zip: JSZip): Promise<Chat[]> {
-        const conversationsJson = await zip
-            .file("conversations.json")
-            .async("string");
-        return JSON.parse(conversationsJson);
+    // Refresh the properties of an index note and the exchange notes it links to
+    private async updateExchangeIndex(
+        chat: Chat,
+        filePath: string,
+        content: string
+    ): Promise<string> {
+        const { index, changes } = await this.writeExchangeNotes(
+            chat,
+            filePath,
+            content
+        );
+        this.recordMessageChanges(chat, filePath, changes);
+        return setProperties(
+            index,
+            this.getNoteProperties(chat, this.getNoteSources(chat))
+        );
     }
 
-    private async generateFilePath(
-        title: string,
-        createdTime: number,
-        prefixFormat: string,
-        archivePath: string
-    ) {
-        const date = new Date(createdTime * 1000);
-        const year = date.getFullYear();
-        const month = String(date.getMonth() + 1).padStart(2, "0");
+    // Properties of the conversation and the list of its exchange notes, filled in by writeExchangeNotes
+    private generateExchangeIndex(chat: Chat): string {
+        const formattedTitle = formatTitle(chat.title);
+        return (
+            this.generateHeader(
+                formattedTitle,
+                chat.id,
+                chat.provider,
+                chat.create_time,
+                chat.update_time,
+                chat.url,
+                {
+                    aliases: [formattedTitle],
+                    tags: this.getTags(),
+                    ...this.getNoteProperties(chat, this.getNoteSources(chat)),
+                }
+            ) + `${EXCHANGES_HEADING}\n\n`
+        );
+    }
 
-        const folderPath = `${archivePath}/${year}/${month}`;
-        const folderResult = await ensureFolderExists(
-            folderPath,
-            this.app.vault
-        );
-        if (!folderResult.success) {
-            throw new Error(
-                folderResult.error || "Failed to ensure folder exists."
-            ); // Handle the error appropriately
+    /**
+     * Write a note for each exchange the index does not list yet, and merge new or edited messages into
+     * the notes it does. Exchanges are matched by the UID of their prompt, so notes are never duplicated.
+     */
+    private async writeExchangeNotes(
+        chat: Chat,
+        indexPath: string,
+        index: string
+    ): Promise<{ index: string; changes: MessageChanges }> {
+        const folder = indexPath.substring(0, indexPath.lastIndexOf("/"));
+        const indexName = this.getNoteName(indexPath);
+        const links = findExchangeLinks(index);
+        const format = (message: ChatMessage) =>
+            this.formatMessage(message, chat.provider);
+        const changes: MessageChanges = {
+            inserted: [],
+            refreshed: [],
+            conflicts: [],
+        };
+        let previousName: string | undefined;
+        let previousMessageId: string | undefined;
+
+        const exchanges = groupExchanges(this.getDisplayedMessages(chat));
+        for (const [position, exchange] of exchanges.entries()) {
+            const linkedName = links.get(exchange.id);
+            const linkedFile =
+                linkedName &&
+                this.app.vault.getAbstractFileByPath(
+                    `${folder}/${linkedName}.md`
+                );
+
+            if (linkedName && linkedFile instanceof TFile) {
+                const merge = mergeMessages(
+                    await this.app.vault.read(linkedFile),
+                    exchange.messages,
+                    format
+                );
+                if (merge.inserted.length > 0 || merge.refreshed.length > 0) {
+                    await this.writeToFile(
+                        linkedFile.path,
+                        setSourcesSection(
+                            this.linkNoteMentions(
+                                merge.content,
+                                this.getChangedIds(merge)
+                            ),
+                            collectSources(exchange.messages)
+                        )
+                    );
+                }
+                changes.inserted.push(...merge.inserted);
+                changes.refreshed.push(...merge.refreshed);
+                changes.conflicts.push(...merge.conflicts);
+                previousName = linkedName;
+            } else if (!linkedName) {
+                const number = position + 1;
+                const notePath = await this.getAvailablePath(
+                    folder,
+                    `${indexName} - ${String(number).padStart(3, "0")}`,
+                    chat
+                );
+                const noteName = this.getNoteName(notePath);
+                await this.writeToFile(
+                    notePath,
+                    this.formatExchangeNote(
+                        chat,
+                        exchange,
+                        number,
+                        indexName,
+                        previousName
+                    )
+                );
+
+                index = addExchangeLink(
+                    index,
+                    formatExchangeLink(number, noteName, exchange)
+                );
+                exchange.messages.forEach((message, i) =>
+                    changes.inserted.push({
+                        id: message.id,
+                        afterId:
+                            i > 0
+                                ? exchange.messages[i - 1].id
+                                : previousMessageId,
+                    })
+                );
+                previousName = noteName;
+            }
+            // A linked note deleted from the vault is not written again
+
+            previousMessageId =
+                exchange.messages[exchange.messages.length - 1].id;
         }
 
-        let fileName = generateFileName(title) + ".md";
+        return { index, changes };
+    }
 
-        if (this.settings.addDatePrefix) {
-            const day = String(date.getDate()).padStart(2, "0");
+    private formatExchangeNote(
+        chat: Chat,
+        exchange: Exchange,
+        number: number,
+        indexName: string,
+        previousName?: string
+    ): string {
+        const properties: Record<string, PropertyValue> = {
+            nexus: this.manifest.id,
+            provider: chat.provider,
+            conversation_id: chat.id,
+            exchange: number,
+            create_time: formatIsoTime(
+                exchange.messages[0].create_time || chat.create_time
+            ),
+            up: `[[${indexName}]]`,
+            previous: previousName && `[[${previousName}]]`,
+            tags: this.getTags(),
+        };
+        const frontmatter = Object.entries(properties)
+            .map(([key, value]) => formatProperty(key, value))
+            .join("");
+        const messages = exchange.messages
+            .map((message) => this.formatMessage(message, chat.provider))
+            .join("");
+
+        return setSourcesSection(
+            this.linkNoteMentions(
+                `---\n${frontmatter}---\n\n# ${getExchangeTitle(
+                    exchange
+                )}\n\n${messages}`
+            ),
+            collectSources(exchange.messages)
+        );
+    }
+
+    private recordMessageChanges(
+        chat: Chat,
+        filePath: string,
+        changes: MessageChanges
+    ): void {
+        const { inserted, refreshed } = changes;
+        if (inserted.length > 0 || refreshed.length > 0) {
+            this.conversationCounters.totalConversationsActuallyUpdated++;
+            this.messageCounters.totalNonEmptyMessagesAdded += inserted.length;
+        }
+        this.importReport.addMessageChanges(
+            chat.title || "Untitled",
+            filePath,
+            changes
+        );
+    }
+
+    // Messages whose text the importer has just written
+    private getChangedIds(changes: MessageChanges): Set<string> {
+        return new Set([
+            ...changes.inserted.map((message) => message.id),
+            ...changes.refreshed,
+        ]);
+    }
 
-            // Create the prefix based on the specified format
-            let prefix = "";
-            if (prefixFormat === "YYYY-MM-DD") {
-                prefix = `${year}-${month}-${day}`;
-            } else if (prefixFormat === "YYYYMMDD") {
-                prefix = `${year}${month}${day}`;
+    private async createNewNote(
+        chat: Chat,
+        filePath: string,
+        existingConversations: Record<string, ConversationCatalogEntry> // Change this line
+    ): Promise<void> {
+        try {
+            await this.attachmentExtractor?.resolveChat(chat);
+            await this.writeCanvasNotes(chat, filePath);
+            if (this.settings.noteLayout === "exchange") {
+                const { index } = await this.writeExchangeNotes(
+                    chat,
+                    filePath,
+                    this.generateExchangeIndex(chat)
+                );
+                await this.writeToFile(filePath, index);
+            } else {
+                const content = this.generateMarkdownContent(chat, filePath);
+                await this.writeToFile(filePath, content);
+                await this.writeBranchNotes(chat, filePath);
             }
 
-            // Add the prefix to the filename
-            fileName = `${prefix} - ${fileName}`;
-        }
+            const messageCount = this.getDisplayedMessages(chat).length;
 
-        let filePath = `${folderPath}/${fileName}`;
+            this.importReport.addCreated(
+                chat.title || "Untitled",
+                filePath,
+                `${formatTimestamp(chat.create_time, "date")} ${formatTimestamp(
+                    chat.create_time,
+                    "time"
+                )}`,
+                `${formatTimestamp(chat.update_time, "date")} ${formatTimestamp(
+                    chat.update_time,
+                    "time"
+                )}`,
+                messageCount
+            );
+            this.conversationCounters
+                .totalNewConversationsSuccessfullyImported++;
+            this.messageCounters.totalNonEmptyMessagesToImport += messageCount;
 
-        if (await doesFilePathExist(filePath, this.app.vault)) {
-            // If the file path exists, generate a unique filename
-            filePath = await generateUniqueFileName(
+            // Add the new conversation to existingConversations
+            existingConversations[getCatalogKey(chat.provider, chat.id)] =
+                this.getChatCatalogEntry(chat, filePath);
+        } catch (error: CustomError) {
+            this.logger.error("Error creating new note", error.message);
+            this.importReport.addFailed(
+                chat.title || "Untitled",
                 filePath,
-                this.app.vault.adapter
+                formatTimestamp(chat.create_time, "date") +
+                    " " +
+                    formatTimestamp(chat.create_time, "time"),
+                formatTimestamp(chat.update_time, "date") +
+                    " " +
+                    formatTimestamp(chat.update_time, "time"),
+                error.message
+            );
+            throw error;
+        }
+    }
+
+    // Helper methods
+    private async extractChatsFromZip(zip: JSZip): Promise<Chat[]> {
+        const geminiActivityFile = findGeminiActivityFile(
+            Object.keys(zip.files)
+        );
+        if (geminiActivityFile) {
+            this.logger.info("Detected Google Takeout Gemini activity");
+            const activity = await zip
+                .file(geminiActivityFile)
+                ?.async("string");
+            const { exchanges, skipped } = parseGeminiActivity(
+                geminiActivityFile,
+                activity || "[]"
+            );
+            skipped.forEach(({ record, reason }) =>
+                this.importReport.addSkippedRecord(record, reason)
+            );
+            const knownSessions = Object.values(this.conversationCatalog)
+                .filter((entry) => entry.provider === "gemini")
+                .map((entry) =>
+                    getGeminiSession(entry.conversationId, entry.updateTime)
+                )
+                .filter((session): session is GeminiSession => !!session);
+            return groupGeminiExchanges(
+                exchanges,
+                this.settings.geminiSessionGap,
+                knownSessions
             );
-            //            filePath = `${folderPath}/${fileName}`; // Update filePath after generating unique filename
         }
 
-        return filePath;
+        const conversationsJson = await zip
+            .file("conversations.json")
+            .async("string");
+        const conversations = JSON.parse(conversationsJson);
+
+        if (isClaudeExport(conversations)) {
+            this.logger.info("Detected Claude export");
+            return conversations.map(convertClaudeConversation);
+        }
+
+        return (conversations as Chat[]).map((chat) => ({
+            ...chat,
+            provider: "chatgpt",
+        }));
+    }
+
+    // Folder of a conversation's note, from its provider's pattern or the default one
+    private getConversationFolder(chat: Chat): string {
+        const pattern =
+            this.settings.providerFolderPatterns[chat.provider]?.trim() ||
+            this.settings.folderPattern;
+        const { gpt, project } = getChatDetails(chat);
+        const subfolder = generateFolderFromPattern(pattern, chat.create_time, {
+            provider: chat.provider,
+            project_id: project,
+            gpt_id: gpt,
+        });
+        return subfolder
+            ? `${this.settings.archiveFolder}/${subfolder}`
+            : this.settings.archiveFolder;
+    }
+
+    // The template, or the name earlier versions gave notes followed by the short ID when none is set
+    private getFileNameTemplate(): string {
+        return (
+            this.settings.fileNameTemplate.trim() ||
+            (this.settings.addDatePrefix
+                ? "{date} - {title} ({shortid})"
+                : "{title} ({shortid})")
+        );
+    }
+
+    private getNoteFileName(chat: Chat): string {
+        const created = new Date(chat.create_time * 1000);
+        const date = [
+            created.getFullYear(),
+            String(created.getMonth() + 1).padStart(2, "0"),
+            String(created.getDate()).padStart(2, "0"),
+        ].join(this.settings.dateFormat === "YYYYMMDD" ? "" : "-");
+        return generateFileNameFromTemplate(
+            this.getFileNameTemplate(),
+            {
+                title: chat.title,
+                date,
+                shortid: getShortId(chat.provider, chat.id),
+                provider: chat.provider,
+            },
+            this.settings.maxFileNameLength,
+            this.settings.transliterateFileNames
+        );
+    }
+
+    /**
+     * First free path for a note name. A taken name gets the conversation's short ID, which does not
+     * depend on import order; numbered names are only a last resort.
+     */
+    private async getAvailablePath(
+        folderPath: string,
+        fileName: string,
+        chat: Chat
+    ): Promise<string> {
+        const filePath = `${folderPath}/${fileName}.md`;
+        if (!(await this.pathExists(filePath))) {
+            return filePath;
+        }
+
+        const shortId = getShortId(chat.provider, chat.id);
+        const withId = fileName.includes(shortId)
+            ? filePath
+            : `${folderPath}/${fileName} (${shortId}).md`;
+        if (!(await this.pathExists(withId))) {
+            return withId;
+        }
+        return generateUniqueFileName(withId, this.app.vault.adapter);
+    }
+
+    // Whether a file or folder is at the path, or would be by this point of a previewed import
+    private async pathExists(path: string): Promise<boolean> {
+        return (
+            !!this.preview?.has(path) ||
+            (await doesFilePathExist(path, this.app.vault))
+        );
+    }
+
+    private async generateFilePath(chat: Chat, folderPath: string) {
+        const folderResult = this.preview
+            ? { success: true, error: undefined }
+            : await ensureFolderExists(folderPath, this.app.vault);
+        if (!folderResult.success) {
+            throw new Error(
+                folderResult.error || "Failed to ensure folder exists."
+            ); // Handle the error appropriately
+        }
+
+        const fileName = this.getNoteFileName(chat);
+        if (this.settings.noteLayout !== "exchange") {
+            return this.getAvailablePath(folderPath, fileName, chat);
+        }
+
+        // The index note and its exchange notes get a subfolder of their own
+        let conversationFolder = `${folderPath}/${fileName}`;
+        if (await this.pathExists(conversationFolder)) {
+            conversationFolder += ` (${getShortId(chat.provider, chat.id)})`;
+        }
+        const subfolderResult = this.preview
+            ? { success: true, error: undefined }
+            : await ensureFolderExists(conversationFolder, this.app.vault);
+        if (!subfolderResult.success) {
+            throw new Error(
+                subfolderResult.error || "Failed to ensure folder exists."
+            );
+        }
+        return `${conversationFolder}/${this.getNoteName(
+            conversationFolder
+        )}.md`;
     }
 
     private async processSingleChat(
@@ -690,21 +1624,22 @@ export default class NexusAiChatImporterPlugin extends Plugin {
     ): Promise<void> {
         try {
             // Check if the conversation already exists
-            if (existingConversations[chat.id]) {
+            const catalogKey = getCatalogKey(chat.provider, chat.id);
+            if (
+                existingConversations[catalogKey] &&
+                this.locateNote(existingConversations[catalogKey])
+            ) {
                 await this.handleExistingChat(
                     chat,
-                    existingConversations[chat.id] // Pass the full ConversationCatalogEntry object
+                    existingConversations[catalogKey] // Pass the full ConversationCatalogEntry object
                 );
             } else {
                 // Check if the file needs to be made unique
                 const filePath = await this.generateFilePath(
-                    chat.title,
-                    chat.create_time,
-                    this.settings.dateFormat,
-                    this.settings.archiveFolder
+                    chat,
+                    this.getConversationFolder(chat)
                 );
                 await this.handleNewChat(chat, filePath, existingConversations);
-                this.updateConversationCatalogEntry(chat, filePath);
             }
             this.conversationCounters.totalConversationsProcessed++;
         } catch (chatError: unknown) {
@@ -717,13 +1652,58 @@ export default class NexusAiChatImporterPlugin extends Plugin {
         }
     }
 
+    /**
+     * Whether the catalogued note still exists. A note renamed while the plugin was not running is found
+     * again by its properties and its entry updated; an entry whose note is gone is dropped, so the
+     * conversation is imported again.
+     */
+    private locateNote(entry: ConversationCatalogEntry): boolean {
+        if (
+            this.app.vault.getAbstractFileByPath(entry.path) instanceof TFile ||
+            this.preview?.has(entry.path)
+        ) {
+            return true;
+        }
+
+        const key = getCatalogKey(entry.provider, entry.conversationId);
+        if (!this.conversationNotes) {
+            this.conversationNotes = this.findConversationNotes();
+        }
+        const file = this.conversationNotes.get(key);
+        if (!file) {
+            this.logger.warn(
+                `Note of conversation ${entry.conversationId} not found at ${entry.path}; importing it again`
+            );
+            delete this.conversationCatalog[key];
+            return false;
+        }
+
+        this.logger.info(`Found ${entry.path} at ${file.path}`);
+        entry.path = file.path;
+        return true;
+    }
+
+    // Conversation notes in the vault by catalog key, the first by vault order when several share one
+    private findConversationNotes(): Map<string, TFile> {
+        const notes = new Map<string, TFile>();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const found = getCatalogEntry({
+                path: file.path,
+                frontmatter:
+                    this.app.metadataCache.getFileCache(file)?.frontmatter,
+            });
+            if (!found) continue;
+            const key = getCatalogKey(found.provider, found.conversationId);
+            if (!notes.has(key)) notes.set(key, file);
+        }
+        return notes;
+    }
+
     private async handleExistingChat(
         chat: Chat,
         existingRecord: ConversationCatalogEntry
     ): Promise<void> {
-        const totalMessageCount = Object.values(chat.mapping).filter((msg) =>
-            isValidMessage(msg.message)
-        ).length;
+        const totalMessageCount = this.getDisplayedMessages(chat).length;
 
         if (existingRecord.updateTime >= chat.update_time) {
             this.importReport.addSkipped(
@@ -736,12 +1716,124 @@ export default class NexusAiChatImporterPlugin extends Plugin {
             );
         } else {
             this.conversationCounters.totalExistingConversationsToUpdate++;
-            await this.updateExistingNote(
-                chat,
-                existingRecord.path,
-                totalMessageCount
+            const filePath = await this.moveIfRegrouped(chat, existingRecord);
+            await this.updateExistingNote(chat, filePath, totalMessageCount);
+            this.updateConversationCatalogEntry(chat, filePath);
+        }
+    }
+
+    // A conversation moved to another project or GPT follows it to the matching folder
+    private async moveIfRegrouped(
+        chat: Chat,
+        existingRecord: ConversationCatalogEntry
+    ): Promise<string> {
+        const { gpt, project } = getChatDetails(chat);
+        if (gpt === existingRecord.gpt && project === existingRecord.project) {
+            return existingRecord.path;
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(existingRecord.path);
+        const folder = this.getConversationFolder(chat);
+        if (file instanceof TFile && file.parent?.name === file.basename) {
+            return this.moveConversationFolder(chat, file, folder);
+        }
+        if (!(file instanceof TFile) || file.parent?.path === folder) {
+            return existingRecord.path;
+        }
+
+        const newPath = await this.getAvailablePath(
+            folder,
+            file.basename,
+            chat
+        );
+        const oldBase = file.path.replace(/\.md$/, "");
+        const newBase = newPath.replace(/\.md$/, "");
+        // The branch and canvas notes of this conversation are named after its note and move with it
+        const moves: [TFile, string][] = [
+            [file, newPath],
+            ...this.getCompanionPaths(chat, file.path)
+                .map((path) => this.app.vault.getAbstractFileByPath(path))
+                .filter(
+                    (companion): companion is TFile =>
+                        companion instanceof TFile
+                )
+                .map((companion): [TFile, string] => [
+                    companion,
+                    newBase + companion.path.substring(oldBase.length),
+                ]),
+        ];
+        if (this.preview) {
+            for (const [moved, to] of moves) {
+                this.preview.addRename(moved.path, to);
+            }
+            return existingRecord.path;
+        }
+
+        const folderResult = await ensureFolderExists(folder, this.app.vault);
+        if (!folderResult.success) {
+            throw new Error(
+                folderResult.error || "Failed to ensure folder exists."
+            );
+        }
+
+        for (const [moved, to] of moves) {
+            await this.app.fileManager.renameFile(moved, to);
+        }
+
+        this.logger.info(`Moved ${existingRecord.path} to ${newPath}`);
+        return newPath;
+    }
+
+    // Branch and canvas notes written alongside the conversation note at `filePath`
+    private getCompanionPaths(chat: Chat, filePath: string): string[] {
+        return [
+            ...getAlternateBranches(chat, getActivePath(chat)).map((branch) =>
+                this.getBranchNotePath(filePath, branch)
+            ),
+            ...collectCanvasDocuments(chat).documents.map((document) =>
+                this.getCanvasPath(filePath, document)
+            ),
+        ];
+    }
+
+    // Exchange notes share a subfolder with their index note, which moves as a whole
+    private async moveConversationFolder(
+        chat: Chat,
+        index: TFile,
+        folder: string
+    ): Promise<string> {
+        const subfolder = index.parent;
+        if (!subfolder || subfolder.parent?.path === folder) return index.path;
+        if (this.preview) {
+            this.preview.addRename(
+                subfolder.path,
+                `${folder}/${subfolder.name}`
+            );
+            return index.path;
+        }
+
+        const folderResult = await ensureFolderExists(folder, this.app.vault);
+        if (!folderResult.success) {
+            throw new Error(
+                folderResult.error || "Failed to ensure folder exists."
             );
         }
+
+        let newFolder = `${folder}/${subfolder.name}`;
+        if (await doesFilePathExist(newFolder, this.app.vault)) {
+            newFolder += ` (${getShortId(chat.provider, chat.id)})`;
+        }
+        const oldPath = index.path;
+        await this.app.fileManager.renameFile(subfolder, newFolder);
+
+        // The index keeps the name of its folder, which is how it is recognised
+        const newPath = `${newFolder}/${this.getNoteName(newFolder)}.md`;
+        if (index.path !== newPath) {
+            await this.app.fileManager.renameFile(index, newPath);
+        }
+
+        this.logger.info(`Moved ${oldPath} to ${newPath}`);
+        return newPath;
     }
 
     private async handleNewChat(
@@ -754,14 +1846,33 @@ export default class NexusAiChatImporterPlugin extends Plugin {
     }
 
     private updateConversationCatalogEntry(chat: Chat, filePath: string): void {
-        this.conversationCatalog[chat.id] = {
+        this.conversationCatalog[getCatalogKey(chat.provider, chat.id)] =
+            this.getChatCatalogEntry(chat, filePath);
+    }
+
+    private getChatCatalogEntry(
+        chat: Chat,
+        filePath: string
+    ): ConversationCatalogEntry {
+        return {
             conversationId: chat.id, // Add this line to include the conversation ID
             path: filePath, // Use the determined filePath directly
             updateTime: chat.update_time,
-            provider: "chatgpt", // Default provider
+            provider: chat.provider,
+            ...this.getCatalogDetails(chat),
         };
     }
 
+    private getCatalogDetails(
+        chat: Chat
+    ): Pick<
+        ConversationCatalogEntry,
+        "models" | "gpt" | "project" | "archived"
+    > {
+        const { models, gpt, project, archived } = getChatDetails(chat);
+        return { models, gpt, project, archived };
+    }
+
     private updateImportReport(zipFileName: string): void {
         const totalExistingConversations = Object.keys(
             this.conversationCatalog
@@ -782,106 +1893,481 @@ export default class NexusAiChatImporterPlugin extends Plugin {
             "date"
         )} at ${formatTimestamp(updateTime, "time")}`;
 
+        // Bring notes from earlier versions to typed properties first
+        content = migrateProperties(content, this.getTags());
+
         // Update parameters
-        content = content.replace(
-            /^update_time: .*$/m,
-            `update_time: ${updateTimeStr}`
-        );
+        content = setProperties(content, {
+            update_time: formatIsoTime(updateTime),
+        });
 
-        // Update header
-        content = content.replace(
-            /^Last Updated: .*$/m,
-            `Last Updated: ${updateTimeStr}`
+        // Update header, which ends where the first message starts
+        const headerEnd =
+            findMessageBlocks(content)[0]?.start ?? content.length;
+        return (
+            content
+                .substring(0, headerEnd)
+                .replace(
+                    /^Last Updated: .*$/m,
+                    () => `Last Updated: ${updateTimeStr}`
+                ) + content.substring(headerEnd)
         );
-
-        return content;
     }
 
-    getNewMessages(chat: Chat, existingMessageIds: string[]): ChatMessage[] {
-        console.log("getNewMessages processing chat:", chat.id);
-        const messages = Object.values(chat.mapping)
-            .filter((message) => {
-                const keep =
-                    message &&
-                    message.id &&
-                    !existingMessageIds.includes(message.id) &&
-                    isValidMessage(message.message);
-                console.log("Message ID:", message?.id, "Keep?:", keep);
-                return keep;
-            })
-            .map((message) => message.message);
-        console.log("getNewMessages found:", messages.length, "messages");
-        return messages;
-    }
-
-    formatNewMessages(messages: ChatMessage[]): string {
-        return messages
-            .filter((message) => message !== undefined)
-            .map((message) => this.formatMessage(message))
-            .filter((formattedMessage) => formattedMessage !== "")
-            .join("\n\n");
-    }
-
-    generateMarkdownContent(chat: any): string {
+    generateMarkdownContent(chat: Chat, filePath: string): string {
         const formattedTitle = formatTitle(chat.title);
-        const create_time_str = `${formatTimestamp(
-            chat.create_time,
-            "date"
-        )} at ${formatTimestamp(chat.create_time, "time")}`;
-        const update_time_str = `${formatTimestamp(
-            chat.update_time,
-            "date"
-        )} at ${formatTimestamp(chat.update_time, "time")}`;
+        const sources = this.getNoteSources(chat);
 
+        // Aliases and tags are only written once, so later edits to them are kept
         let content = this.generateHeader(
             formattedTitle,
             chat.id,
-            create_time_str,
-            update_time_str
+            chat.provider,
+            chat.create_time,
+            chat.update_time,
+            chat.url,
+            {
+                aliases: [formattedTitle],
+                tags: this.getTags(),
+                ...this.getNoteProperties(chat, sources),
+            }
         );
-        content += this.generateMessagesContent(chat);
+        content += this.generateMessagesContent(chat, filePath);
+        if (this.settings.userNotesSection) {
+            content = `${content.trimEnd()}\n\n${USER_NOTES_MARKER}\n## Notes\n\n`;
+        }
 
-        return content;
+        return setSourcesSection(this.linkNoteMentions(content), sources);
+    }
+
+    // Sources cited in the note, including those of branches collapsed into it
+    private getNoteSources(chat: Chat): CitationSource[] {
+        const messages = this.getDisplayedMessages(chat);
+        if (this.settings.branchHandling === "collapse") {
+            for (const branch of getAlternateBranches(
+                chat,
+                getActivePath(chat)
+            )) {
+                messages.push(...this.getBranchMessages(branch));
+            }
+        }
+        return collectSources(messages);
+    }
+
+    // Models, custom GPT and project, and the cited domains so notes can be searched by where answers came from
+    private getNoteProperties(
+        chat: Chat,
+        sources: CitationSource[]
+    ): Record<string, PropertyValue> {
+        const details = getChatDetails(chat);
+        const messages = this.getDisplayedMessages(chat);
+        return {
+            url: chat.url,
+            message_count: messages.length,
+            word_count: messages.reduce(
+                (total, message) =>
+                    total + countWords(this.getMessageText(message) || ""),
+                0
+            ),
+            models: details.models,
+            default_model: details.defaultModel,
+            gpt_id: details.gpt,
+            project_id: details.project,
+            archived: details.archived,
+            sources: Array.from(
+                new Set(sources.map((source) => getDomain(source.url)))
+            ),
+        };
+    }
+
+    // Configured tags, without `#` and empty entries
+    private getTags(): string[] {
+        return this.settings.tags
+            .split(/[,\s]+/)
+            .map((tag) => tag.replace(/^#/, ""))
+            .filter((tag) => tag);
     }
 
     generateHeader(
         title: string,
         conversationId: string,
-        createTimeStr: string,
-        updateTimeStr: string
+        provider: Provider,
+        createTime: number,
+        updateTime: number,
+        url?: string,
+        properties: Record<string, PropertyValue> = {}
     ) {
-        return `---
+        const createTimeStr = `${formatTimestamp(
+            createTime,
+            "date"
+        )} at ${formatTimestamp(createTime, "time")}`;
+        const updateTimeStr = `${formatTimestamp(
+            updateTime,
+            "date"
+        )} at ${formatTimestamp(updateTime, "time")}`;
+        const extraProperties = Object.entries(properties)
+            .map(([key, value]) => formatProperty(key, value))
+            .join("");
+        const models = properties.models;
+        return renderTemplate(this.templates.header, {
+            nexus: this.manifest.id,
+            title,
+            id: conversationId,
+            provider,
+            created: createTimeStr,
+            updated: updateTimeStr,
+            create_time: formatIsoTime(createTime),
+            update_time: formatIsoTime(updateTime),
+            url: url || "",
+            model:
+                Array.isArray(models) && models.length
+                    ? models.join(", ")
+                    : String(properties.default_model || ""),
+            properties: extraProperties,
+        });
+    }
+
+    generateMessagesContent(chat: Chat, filePath: string) {
+        const activePath = getActivePath(chat);
+        const branches =
+            this.settings.branchHandling === "drop"
+                ? []
+                : getAlternateBranches(chat, activePath);
+        this.reportNestedBranches(chat, filePath, branches);
+
+        let messagesContent = "";
+        for (const node of activePath) {
+            if (this.isDisplayed(node.message)) {
+                messagesContent += this.formatMessage(
+                    node.message,
+                    chat.provider
+                );
+            }
+            // Alternate branches go right under the message they fork from
+            for (const branch of branches) {
+                if (branch.forkId === node.id) {
+                    messagesContent += this.formatBranch(
+                        chat,
+                        branch,
+                        filePath
+                    );
+                }
+            }
+        }
+        return messagesContent;
+    }
+
+    private getBranchMessages(branch: ChatBranch): ChatMessage[] {
+        return branch.nodes
+            .map((node) => node.message)
+            .filter((message): message is ChatMessage =>
+                this.isDisplayed(message)
+            );
+    }
+
+    private formatBranchMessages(chat: Chat, branch: ChatBranch): string {
+        return branch.nodes
+            .filter((node) => this.isDisplayed(node.message))
+            .map((node) =>
+                this.formatMessage(node.message as ChatMessage, chat.provider)
+            )
+            .join("");
+    }
+
+    formatBranch(chat: Chat, branch: ChatBranch, filePath: string): string {
+        const messages = this.formatBranchMessages(chat, branch);
+        if (!messages) return "";
+
+        if (this.settings.branchHandling === "separate") {
+            return `> [!note] Alternate branch: [[${this.getNoteName(
+                this.getBranchNotePath(filePath, branch)
+            )}]]\n\n`;
+        }
+
+        const messageCount = branch.nodes.filter((node) =>
+            this.isDisplayed(node.message)
+        ).length;
+        const quotedMessages = messages
+            .trimEnd()
+            .split("\n")
+            .map((line) => (line ? `> ${line}` : ">"))
+            .join("\n");
+        return `> [!note]- Alternate branch (${messageCount} messages)\n${quotedMessages}\n\n`;
+    }
+
+    /**
+     * Add the alternate branches that appeared since the note was written under the message they fork
+     * from, after the text and branches already kept there.
+     */
+    private insertNewBranches(
+        chat: Chat,
+        filePath: string,
+        content: string
+    ): string {
+        if (this.settings.branchHandling === "drop") return content;
+
+        const activePath = getActivePath(chat);
+        const branches = getAlternateBranches(chat, activePath);
+        this.reportNestedBranches(chat, filePath, branches);
+
+        const existingMessageIds = this.extractMessageUIDsFromNote(content);
+        const blocks = findMessageBlocks(content);
+        const insertions = new Map<number, string>();
+        branches
+            .filter((branch) => {
+                if (this.settings.branchHandling === "separate") {
+                    return !content.includes(
+                        `[[${this.getNoteName(
+                            this.getBranchNotePath(filePath, branch)
+                        )}]]`
+                    );
+                }
+                const firstMessage = branch.nodes.find((node) =>
+                    this.isDisplayed(node.message)
+                );
+                return (
+                    firstMessage &&
+                    !existingMessageIds.includes(firstMessage.id)
+                );
+            })
+            .forEach((branch) => {
+                const position = this.getBranchPosition(
+                    content,
+                    blocks,
+                    activePath,
+                    branch.forkId
+                );
+                insertions.set(
+                    position,
+                    (insertions.get(position) || "") +
+                        this.formatBranch(chat, branch, filePath)
+                );
+            });
+
+        // Apply from the end so earlier offsets stay valid
+        Array.from(insertions.keys())
+            .sort((a, b) => b - a)
+            .forEach((position) => {
+                const before = content.substring(0, position).trimEnd();
+                content = `${before}\n\n${insertions.get(
+                    position
+                )}${content.substring(position)}`;
+            });
+        return content;
+    }
+
+    // Where a branch forking at `forkId` goes: before the message after the closest shown message of the thread
+    private getBranchPosition(
+        content: string,
+        blocks: MessageBlock[],
+        activePath: ChatNode[],
+        forkId: string
+    ): number {
+        const forkIndex = activePath.findIndex((node) => node.id === forkId);
+        for (let index = forkIndex; index >= 0; index--) {
+            const block = blocks.find(
+                (candidate) => candidate.id === activePath[index].id
+            );
+            if (block) {
+                const next = blocks[blocks.indexOf(block) + 1];
+                return next ? next.start : findThreadEnd(content);
+            }
+        }
+        return blocks.length > 0 ? blocks[0].start : findThreadEnd(content);
+    }
+
+    // Alternates inside alternate branches are not rendered; the report says so
+    private reportNestedBranches(
+        chat: Chat,
+        filePath: string,
+        branches: ChatBranch[]
+    ): void {
+        getNestedBranches(chat, branches).forEach((branch) =>
+            this.importReport.addMessageChange(
+                chat.title || "Untitled",
+                filePath,
+                branch.nodes[0].id,
+                "Alternate branch inside another branch, not imported"
+            )
+        );
+    }
+
+    private getNoteName(filePath: string): string {
+        return (filePath.split("/").pop() || filePath).replace(/\.md$/, "");
+    }
+
+    // Sibling note named after the conversation note and the branch's first message
+    private getBranchNotePath(filePath: string, branch: ChatBranch): string {
+        return `${filePath.replace(/\.md$/, "")} - branch ${hashString(
+            branch.nodes[0].id
+        )}.md`;
+    }
+
+    private async writeBranchNotes(chat: Chat, filePath: string) {
+        if (this.settings.branchHandling !== "separate") return;
+
+        for (const branch of getAlternateBranches(chat, getActivePath(chat))) {
+            const messages = this.formatBranchMessages(chat, branch);
+            if (!messages) continue;
+
+            const header = `---
 nexus: ${this.manifest.id}
-provider: chatgpt
-aliases: "${title}"
-conversation_id: ${conversationId}
-create_time: ${createTimeStr}
-update_time: ${updateTimeStr}
+provider: ${chat.provider}
+branch_of: "[[${this.getNoteName(filePath)}]]"
+branch_id: ${branch.nodes[0].id}
 ---
 
-# Title: ${title}
+# Branch of: ${formatTitle(chat.title)}
 
-Created: ${createTimeStr}
-Last Updated: ${updateTimeStr}\n\n
 `;
+            const branchPath = this.getBranchNotePath(filePath, branch);
+            const sources = collectSources(this.getBranchMessages(branch));
+            const file = this.app.vault.getAbstractFileByPath(branchPath);
+            if (file instanceof TFile) {
+                // Branch notes are merged like conversation notes, so edits made in them are kept
+                const existing = await this.app.vault.read(file);
+                const merged = setSourcesSection(
+                    mergeMessages(
+                        existing,
+                        this.getBranchMessages(branch),
+                        (message) => this.formatMessage(message, chat.provider)
+                    ).content,
+                    sources
+                );
+                if (merged !== existing) {
+                    await this.writeToFile(branchPath, merged);
+                }
+            } else {
+                await this.writeToFile(
+                    branchPath,
+                    setSourcesSection(header + messages, sources)
+                );
+            }
+        }
     }
 
-    generateMessagesContent(chat: Chat) {
-        let messagesContent = "";
-        for (const messageId in chat.mapping) {
-            const messageObj = chat.mapping[messageId];
-            if (
-                messageObj &&
-                messageObj.message &&
-                isValidMessage(messageObj.message)
-            ) {
-                messagesContent += this.formatMessage(messageObj.message);
+    // Rebuilt canvas documents go next to the conversation note; the calls that produced them link there
+    private async writeCanvasNotes(chat: Chat, filePath: string) {
+        const { documents, revisions } = collectCanvasDocuments(chat);
+        if (documents.length === 0) return;
+
+        for (const document of documents) {
+            await this.writeCanvasNote(chat, document, filePath);
+        }
+
+        for (const node of Object.values(chat.mapping)) {
+            const revision = node.message && revisions.get(node.message.id);
+            if (!node.message || !revision) continue;
+            const { document, version } = revision;
+            node.message.metadata = {
+                ...node.message.metadata,
+                canvas_revision: {
+                    name: document.name,
+                    path: this.getCanvasPath(filePath, document),
+                    version,
+                },
+            };
+        }
+    }
+
+    /**
+     * Write a canvas document at its final version, unless the file was edited in the vault: a file still
+     * holding what an earlier import wrote, at any earlier version, is replaced; any other is kept.
+     */
+    private async writeCanvasNote(
+        chat: Chat,
+        document: CanvasDocument,
+        filePath: string
+    ): Promise<void> {
+        const canvasPath = this.getCanvasPath(filePath, document);
+        const content = this.formatCanvas(chat, document, filePath);
+        const file = this.app.vault.getAbstractFileByPath(canvasPath);
+        if (file instanceof TFile) {
+            const existing = await this.app.vault.read(file);
+            if (existing === content) return;
+            const written = document.versions.some((_, index) =>
+                index < document.versions.length - 1
+                    ? existing ===
+                      this.formatCanvas(
+                          chat,
+                          {
+                              ...document,
+                              versions: document.versions.slice(0, index + 1),
+                          },
+                          filePath
+                      )
+                    : false
+            );
+            if (!written) {
+                this.importReport.addMessageChange(
+                    chat.title || "Untitled",
+                    filePath,
+                    document.id,
+                    `Canvas [[${canvasPath}]] edited in the vault; kept at its edited text instead of version ${document.versions.length}`
+                );
+                return;
             }
         }
-        return messagesContent;
+        await this.writeToFile(canvasPath, content);
+    }
+
+    // Documents with the same name keep apart by a short hash of their ID
+    private getCanvasPath(filePath: string, document: CanvasDocument): string {
+        return `${filePath.replace(/\.md$/, "")} - ${generateFileName(
+            document.name
+        )} (${hashString(document.id)})${getCanvasExtension(document)}`;
     }
 
-    formatMessage(message: ChatMessage): string {
+    // Code canvases are written as plain source files, documents as notes with their history
+    private formatCanvas(
+        chat: Chat,
+        document: CanvasDocument,
+        filePath: string
+    ): string {
+        const finalVersion = document.versions[document.versions.length - 1];
+        if (isCodeCanvas(document)) return finalVersion;
+
+        const earlierVersions = document.versions
+            .slice(0, -1)
+            .map(
+                (text, index) =>
+                    `> [!note]- Version ${index + 1}\n` +
+                    text
+                        .split("\n")
+                        .map((line) => (line ? `> ${line}` : ">"))
+                        .join("\n")
+            )
+            .join("\n\n");
+
+        return `---
+nexus: ${this.manifest.id}
+provider: ${chat.provider}
+canvas_of: "[[${this.getNoteName(filePath)}]]"
+canvas_id: ${document.id}
+---
+
+# ${document.name}
+
+${finalVersion}
+${earlierVersions ? `\n## Earlier versions\n\n${earlierVersions}\n` : ""}`;
+    }
+
+    // Valid messages whose type is not omitted in the settings
+    private isDisplayed(
+        message: ChatMessage | null | undefined
+    ): message is ChatMessage {
+        if (!message || !isValidMessage(message)) return false;
+        const type = getToolMessageType(message);
+        return !type || this.settings.toolMessageDisplay[type] !== "omit";
+    }
+
+    private getDisplayedMessages(chat: Chat): ChatMessage[] {
+        return getActiveMessages(chat).filter((message) =>
+            this.isDisplayed(message)
+        );
+    }
+
+    formatMessage(message: ChatMessage, provider: Provider): string {
         if (!message) {
             this.logger.error("Message is null or undefined:", message);
             return "";
@@ -898,7 +2384,14 @@ Last Updated: ${updateTimeStr}\n\n
             typeof message.author === "object" &&
             "role" in message.author
         ) {
-            authorName = message.author.role === "user" ? "User" : "ChatGPT";
+            authorName =
+                message.author.role === "user"
+                    ? "User"
+                    : message.author.role === "system"
+                    ? "System"
+                    : message.author.role === "tool"
+                    ? "Tool"
+                    : getAssistantLabel(provider, message.metadata?.model_slug);
         } else {
             this.logger.warn(
                 "Author information missing or invalid:",
@@ -906,66 +2399,160 @@ Last Updated: ${updateTimeStr}\n\n
             );
         }
 
-        const headingLevel = authorName === "User" ? "###" : "####";
-        const quoteChar = authorName === "User" ? ">" : ">>";
+        const isUser = message.author?.role === "user";
+        const headingLevel = isUser ? "###" : "####";
+        const toolType = getToolMessageType(message);
 
-        let messageContent = `${headingLevel} ${authorName}, on ${messageTime};\n`;
+        let body: string;
+        const messageText = this.getMessageText(message);
+        if (messageText === undefined) {
+            this.logger.warn(
+                "Message content missing or invalid:",
+                message.content
+            );
+            body = this.styleMessageBody("[No content]", isUser);
+        } else if (toolType) {
+            // Tool traffic and system prompts stay out of the way in a callout
+            body = formatToolCallout(
+                toolType,
+                this.settings.toolMessageDisplay[toolType],
+                message,
+                messageText || "[No text content]"
+            );
+        } else if (messageText) {
+            body = this.styleMessageBody(messageText, isUser);
+        } else {
+            this.logger.warn(
+                "Message content has no text parts:",
+                message.content
+            );
+            body = this.styleMessageBody("[No text content]", isUser);
+        }
 
-        if (
-            message.content &&
-            typeof message.content === "object" &&
-            Array.isArray(message.content.parts)
-        ) {
-            if (message.content.content_type === "multimodal_text") {
-                console.log("Processing multimodal message:", message.id);
-            }
-            const messageText = message.content.parts
-                .filter(
-                    (part) =>
-                        typeof part === "string" ||
-                        (typeof part === "object" &&
-                            (part.content_type === "audio_transcription" ||
-                                part.text))
-                )
-                .map((part) => {
-                    if (typeof part === "string") return part;
-                    return part.text || "";
-                })
-                .join("\n");
-
-            if (messageText) {
-                messageContent += messageText
+        const uid = message.id || "unknown";
+        const messageContent = renderTemplate(this.templates.message, {
+            heading: headingLevel,
+            role: authorName,
+            time: messageTime,
+            body,
+            text: messageText || "",
+            uid,
+            model: message.metadata?.model_slug || "",
+            separator:
+                message.author?.role === "assistant" && !toolType
+                    ? "\n---\n"
+                    : "",
+        });
+
+        // Updates find messages by their markers, so keep them even when the template leaves them out
+        const marker = `<!-- UID: ${uid} -->`;
+        const withMarker = messageContent.includes(marker)
+            ? messageContent
+            : `${messageContent.trimEnd()}\n${marker}\n\n`;
+        return addFingerprint(
+            withMarker.includes(MESSAGE_START)
+                ? withMarker
+                : `${MESSAGE_START}\n${withMarker}`
+        );
+    }
+
+    private styleMessageBody(text: string, isUser: boolean): string {
+        switch (this.settings.messageStyle) {
+            case "plain":
+                return text;
+            case "callout":
+                // One quote level, so code blocks, tables and math inside render as usual
+                return (
+                    `> [!${isUser ? "user" : "assistant"}]+\n` +
+                    text
+                        .split("\n")
+                        .map((line) => (line ? `> ${line}` : ">"))
+                        .join("\n")
+                );
+            default: {
+                const quoteChar = isUser ? ">" : ">>";
+                return text
                     .split("\n")
                     .map((line) => `${quoteChar} ${line}`)
                     .join("\n");
-            } else {
-                this.logger.warn(
-                    "Message content has no text parts:",
-                    message.content
-                );
-                messageContent += `${quoteChar} [No text content]`;
             }
-        } else {
-            this.logger.warn(
-                "Message content missing or invalid:",
-                message.content
-            );
-            messageContent += `${quoteChar} [No content]`;
+        }
+    }
+
+    // Undefined when the message has no usable content
+    private getMessageText(message: ChatMessage): string | undefined {
+        if (!message.content || typeof message.content !== "object") {
+            return undefined;
         }
 
-        messageContent += `\n<!-- UID: ${message.id || "unknown"} -->\n`;
+        // The document's text lives in its own note
+        const canvas = message.metadata?.canvas_revision;
+        if (canvas) {
+            return `[[${canvas.path}|${canvas.name}]] (version ${canvas.version})`;
+        }
+
+        const toolText = getToolContentText(message);
+        if (toolText !== undefined) return toolText;
+
+        if (!Array.isArray(message.content.parts)) return undefined;
 
-        if (authorName === "ChatGPT") {
-            messageContent += "\n---\n";
+        if (message.content.content_type === "multimodal_text") {
+            console.log("Processing multimodal message:", message.id);
         }
+        return message.content.parts
+            .filter(
+                (part) =>
+                    typeof part === "string" ||
+                    isImagePart(part) ||
+                    (typeof part === "object" &&
+                        (part.content_type === "audio_transcription" ||
+                            part.text))
+            )
+            .map((part) => {
+                if (typeof part === "string") {
+                    return normalizeMath(replaceCitations(part, message));
+                }
+                if (isImagePart(part)) {
+                    // Embedded where the image sits among the parts
+                    return part.vault_path
+                        ? `![[${part.vault_path}]]`
+                        : "[Image not included in the export]";
+                }
+                return part.text || "";
+            })
+            .concat(this.formatAttachments(message))
+            .join("\n");
+    }
 
-        return messageContent + "\n\n";
+    // Uploaded files that are not already embedded as image parts
+    private formatAttachments(message: ChatMessage): string[] {
+        const embedded = new Set(
+            (message.content.parts || [])
+                .filter(isImagePart)
+                .map((part) => (part as MessagePart).vault_path)
+        );
+        return (message.metadata?.attachments || [])
+            .filter(
+                (attachment: MessageAttachment) =>
+                    !attachment.vault_path ||
+                    !embedded.has(attachment.vault_path)
+            )
+            .map((attachment: MessageAttachment) =>
+                attachment.vault_path
+                    ? `📎 [[${attachment.vault_path}|${attachment.name}]]`
+                    : `📎 ${attachment.name} (not included in the export)`
+            );
     }
 
     async writeToFile(filePath: string, content: string): Promise<void> {
         try {
             const file = this.app.vault.getAbstractFileByPath(filePath); // Use filePath instead of fileName
 
+            if (this.preview) {
+                this.preview.addWrite(filePath, file instanceof TFile);
+                return;
+            }
+
             if (file instanceof TFile) {
                 // Update existing file
                 await this.app.vault.modify(file, content);
@@ -988,20 +2575,12 @@ Last Updated: ${updateTimeStr}\n\n
     }
 
     extractMessageUIDsFromNote(content: string): string[] {
-        const uidRegex = /<!-- UID: (.*?) -->/g;
-        const uids = [];
-        let match;
-        while ((match = uidRegex.exec(content)) !== null) {
-            uids.push(match[1]);
-        }
-        return uids;
+        return findMessageIds(content);
     }
 
-    async writeImportReport(zipFileName: string): Promise<void> {
-        const now = new Date();
-        let prefix = formatTimestamp(now.getTime() / 1000, "prefix");
-
-        let logFileName = `${prefix} - import report.md`;
+    // Free path for a new report in the Reports folder, undefined when the folder cannot be created
+    private async getReportPath(name: string): Promise<string | undefined> {
+        const prefix = formatTimestamp(Date.now() / 1000, "prefix");
         const logFolderPath = `${this.settings.archiveFolder}/Reports`;
 
         const folderResult = await ensureFolderExists(
@@ -1017,14 +2596,20 @@ Last Updated: ${updateTimeStr}\n\n
             return;
         }
 
-        let logFilePath = `${logFolderPath}/${logFileName}`;
+        let logFilePath = `${logFolderPath}/${prefix} - ${name}.md`;
 
         let counter = 1;
         while (await this.app.vault.adapter.exists(logFilePath)) {
-            logFileName = `${prefix}-${counter} - import report.md`;
-            logFilePath = `${logFolderPath}/${logFileName}`;
+            logFilePath = `${logFolderPath}/${prefix}-${counter} - ${name}.md`;
             counter++;
         }
+        return logFilePath;
+    }
+
+    async writeImportReport(zipFileName: string): Promise<void> {
+        const now = new Date();
+        const logFilePath = await this.getReportPath("import report");
+        if (!logFilePath) return;
 
         const currentDate = `${formatTimestamp(
             now.getTime() / 1000,
@@ -1051,12 +2636,19 @@ ${this.importReport.generateReportContent()}
     }
 
     async resetCatalogs() {
-        // Clear all internal data structures
+        // Clear all internal data structures, on every device
         this.importedArchives = {};
         this.conversationCatalog = {};
+        this.legacyCatalog = undefined;
+        await this.catalogStore.save({ conversations: {}, archives: {} });
+        this.catalogLoaded = true;
 
         // Reset settings to default
-        this.settings = Object.assign({}, DEFAULT_SETTINGS);
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, {
+            toolMessageDisplay: { ...DEFAULT_SETTINGS.toolMessageDisplay },
+            providerFolderPatterns: {},
+            conversationFilter: { ...DEFAULT_CONVERSATION_FILTER },
+        });
 
         // Clear the data file
         await this.saveData({});
@@ -1089,48 +2681,104 @@ ${this.importReport.generateReportContent()}
     }
 
     // UI-related methods
-    selectZipFile() {
+    selectZipFile(preview = this.settings.previewImports) {
         showDialog(
             this.app,
             "information",
             "Import Settings",
-            ["Importing ChatGPT or Echoes conversations"],
+            [
+                "Importing ChatGPT, Claude, Gemini, Echoes, Open WebUI or LibreChat conversations",
+            ],
             undefined,
             { button1: "Continue" }
         ).then(() => {
             const input = document.createElement("input");
             input.type = "file";
-            input.accept = ".zip,.md";
+            input.accept = ".zip,.md,.json";
             input.multiple = true;
             input.onchange = async (e) => {
-                const files = Array.from(e.target.files || []);
+                const files = Array.from(
+                    (e.target as HTMLInputElement).files || []
+                );
                 if (files.length > 0) {
                     const sortedFiles = files.sort((a, b) => a.name.localeCompare(b.name));
-                    for (const file of sortedFiles) {
-                        this.logger.info(`Processing file: ${file.name}`);
-                        if (file.name.toLowerCase().endsWith(".zip")) {
-                            await this.handleZipFile(file);
-                        } else {
-                            await this.handleEchoesFile(file);
-                        }
-                        this.logger.info(`Completed processing: ${file.name}`);
+                    if (preview) {
+                        await this.previewAndImportFiles(sortedFiles);
+                    } else {
+                        await this.importFiles(sortedFiles);
                     }
+                    this.conversationPicks.clear();
+                    this.partialImports.clear();
                 }
             };
             input.value = "";
             input.click();
         });
     }
+    async importFiles(files: File[]) {
+        for (const file of files) {
+            this.logger.info(`Processing file: ${file.name}`);
+            if (file.name.toLowerCase().endsWith(".zip")) {
+                await this.handleZipFile(file);
+            } else if (file.name.toLowerCase().endsWith(".json")) {
+                await this.handleJsonFile(file);
+            } else {
+                await this.handleEchoesFile(file);
+            }
+            this.logger.info(`Completed processing: ${file.name}`);
+        }
+    }
+
+    // Run the import without writing, show what it would change, and import once confirmed
+    async previewAndImportFiles(files: File[]) {
+        // The preview runs on a copy of the catalog, so nothing it records can be saved
+        if (!(await this.loadCatalog())) {
+            new Notice(
+                "Preview cancelled: the catalog could not be read. Check console for details."
+            );
+            return;
+        }
+        const { conversationCatalog, importedArchives } = this;
+        this.conversationCatalog = JSON.parse(
+            JSON.stringify(conversationCatalog)
+        );
+        this.importedArchives = JSON.parse(JSON.stringify(importedArchives));
+        const preview = new ImportPreview();
+        this.preview = preview;
+        try {
+            await this.importFiles(files);
+        } finally {
+            this.preview = undefined;
+            this.conversationCatalog = conversationCatalog;
+            this.importedArchives = importedArchives;
+        }
+
+        if (!(await showPreview(this.app, this, preview.format()))) {
+            new Notice("Import cancelled.");
+            return;
+        }
+        preview.reimported.forEach((hash) => this.confirmedArchives.add(hash));
+        try {
+            await this.importFiles(files);
+        } finally {
+            this.confirmedArchives.clear();
+        }
+    }
+
     async validateZipFile(file: File): Promise<JSZip> {
         try {
             const zip = new JSZip();
             const content = await zip.loadAsync(file);
             const fileNames = Object.keys(content.files);
 
-            if (!fileNames.includes("conversations.json")) {
+            if (
+                !fileNames.includes("conversations.json") &&
+                !findGeminiActivityFile(fileNames) &&
+                !isEchoesZip(fileNames)
+            ) {
                 throw new NexusAiChatImporterError(
                     "Invalid ZIP structure",
-                    "File 'conversations.json' not found in the zip file"
+                    "No 'conversations.json', Gemini activity or Echoes Markdown found in the zip file"
                 );
             }
 
@@ -1177,6 +2825,43 @@ class NexusAiChatImporterPluginSettingTab extends PluginSettingTab {
                     })
             );
 
+        new Setting(containerEl)
+            .setName("Folder pattern")
+            .setDesc(
+                "Subfolder for new notes. Tokens: {provider}, {year}, {month}, {day}, {quarter}, {project_id}, {gpt_id}. Leave empty to keep every note in the conversations folder."
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("{year}/{month}")
+                    .setValue(this.plugin.settings.folderPattern)
+                    .onChange(async (value) => {
+                        this.plugin.settings.folderPattern = value.trim();
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        for (const [provider, label] of Object.entries(PROVIDER_LABELS)) {
+            new Setting(containerEl)
+                .setName(`Folder pattern for ${label}`)
+                .setDesc(
+                    'Leave empty to use the folder pattern above; "." keeps these notes directly in the conversations folder.'
+                )
+                .addText((text) =>
+                    text
+                        .setValue(
+                            this.plugin.settings.providerFolderPatterns[
+                                provider as Provider
+                            ] || ""
+                        )
+                        .onChange(async (value) => {
+                            this.plugin.settings.providerFolderPatterns[
+                                provider as Provider
+                            ] = value.trim() || undefined;
+                            await this.plugin.saveSettings();
+                        })
+                );
+        }
+
         new Setting(containerEl)
             .setName("Add date prefix to filenames")
             .setDesc("Add creation date as a prefix to conversation filenames")
@@ -1191,10 +2876,62 @@ class NexusAiChatImporterPluginSettingTab extends PluginSettingTab {
                     })
             );
 
-        if (this.plugin.settings.addDatePrefix) {
+        new Setting(containerEl)
+            .setName("File name template")
+            .setDesc(
+                "Tokens: {date}, {title}, {shortid} (stable per conversation) and {provider}. Without {shortid}, conversations sharing a title are named by import order. Leave empty to use the date prefix setting and the short ID."
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("{date} - {title} ({shortid})")
+                    .setValue(this.plugin.settings.fileNameTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.fileNameTemplate = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Maximum file name length")
+            .setDesc(
+                "Long titles are shortened to keep names within this many characters; 0 for no limit"
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("100")
+                    .setValue(String(this.plugin.settings.maxFileNameLength))
+                    .onChange(async (value) => {
+                        const length = parseInt(value, 10);
+                        if (!isNaN(length) && length >= 0) {
+                            this.plugin.settings.maxFileNameLength = length;
+                            await this.plugin.saveSettings();
+                        }
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Transliterate file names")
+            .setDesc(
+                "Write accented, Cyrillic and Greek letters in file names as plain ASCII"
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.transliterateFileNames)
+                    .onChange(async (value) => {
+                        this.plugin.settings.transliterateFileNames = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        const { addDatePrefix, fileNameTemplate } = this.plugin.settings;
+        if (
+            fileNameTemplate.trim()
+                ? fileNameTemplate.includes("{date}")
+                : addDatePrefix
+        ) {
             new Setting(containerEl)
                 .setName("Date format")
-                .setDesc("Choose the format for the date prefix")
+                .setDesc("Choose the format for the date prefix and {date}")
                 .addDropdown(
                     (dropdown) =>
                         dropdown
@@ -1214,6 +2951,268 @@ class NexusAiChatImporterPluginSettingTab extends PluginSettingTab {
                             }) // Closing the arrow function correctly
                 ); // Ensures proper closure of dropdown
         }
+
+        new Setting(containerEl)
+            .setName("Tags")
+            .setDesc(
+                "Comma-separated tags added to the properties of new notes"
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("ai-chat")
+                    .setValue(this.plugin.settings.tags)
+                    .onChange(async (value) => {
+                        this.plugin.settings.tags = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Message style")
+            .setDesc(
+                "How message text is set apart in notes. Callouts and plain text keep code blocks, tables and math intact; callouts use the styles shipped with the plugin."
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("quote", "Quotes (> and >>)")
+                    .addOption("callout", "Callouts")
+                    .addOption("plain", "Plain text under role headings")
+                    .setValue(this.plugin.settings.messageStyle)
+                    .onChange(async (value) => {
+                        this.plugin.settings.messageStyle =
+                            value as MessageStyle;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Link to existing notes")
+            .setDesc(
+                "Turn the first mention of each vault note's title or alias in imported messages into a link, and list the linked notes under Related notes"
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.autoLink)
+                    .onChange(async (value) => {
+                        this.plugin.settings.autoLink = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Excluded from linking")
+            .setDesc(
+                "Note names, aliases or folders that are never linked to, one per line"
+            )
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder("Daily notes\nTODO")
+                    .setValue(this.plugin.settings.autoLinkExclude)
+                    .onChange(async (value) => {
+                        this.plugin.settings.autoLinkExclude = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Preview imports")
+            .setDesc(
+                "Show what an import would create, update, move or skip before writing anything, and import only once confirmed"
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.previewImports)
+                    .onChange(async (value) => {
+                        this.plugin.settings.previewImports = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Choose conversations")
+            .setDesc(
+                "List the conversations of each export, with search and filters, and import only those you choose. The last filter is remembered"
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.selectConversations)
+                    .onChange(async (value) => {
+                        this.plugin.settings.selectConversations = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Notes section")
+            .setDesc(
+                "End new notes with a Notes section for your own writing, which updates never change"
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.plugin.settings.userNotesSection)
+                    .onChange(async (value) => {
+                        this.plugin.settings.userNotesSection = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Attachments folder")
+            .setDesc(
+                "Subfolder of the conversations folder where images and uploaded files from exports are stored"
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("Attachments")
+                    .setValue(this.plugin.settings.attachmentFolder)
+                    .onChange(async (value) => {
+                        this.plugin.settings.attachmentFolder =
+                            value.trim() || "Attachments";
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Note layout")
+            .setDesc(
+                "Write each new conversation to one note, or each prompt and its answer to its own note, linked from an index note in a subfolder. Alternate branches are left out of exchange notes."
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("conversation", "One note per conversation")
+                    .addOption("exchange", "One note per exchange")
+                    .setValue(this.plugin.settings.noteLayout)
+                    .onChange(async (value) => {
+                        this.plugin.settings.noteLayout = value as NoteLayout;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Alternate branches")
+            .setDesc(
+                "How to handle edited prompts and regenerated answers that are not part of the final conversation thread"
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption("drop", "Drop them")
+                    .addOption("collapse", "Collapse under the fork message")
+                    .addOption("separate", "Write them to separate notes")
+                    .setValue(this.plugin.settings.branchHandling)
+                    .onChange(async (value) => {
+                        this.plugin.settings.branchHandling =
+                            value as BranchHandling;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Gemini session gap")
+            .setDesc(
+                "Minutes of inactivity after which Gemini prompts from a Takeout export start a new conversation"
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("30")
+                    .setValue(String(this.plugin.settings.geminiSessionGap))
+                    .onChange(async (value) => {
+                        const minutes = parseInt(value, 10);
+                        if (!isNaN(minutes) && minutes > 0) {
+                            this.plugin.settings.geminiSessionGap = minutes;
+                            await this.plugin.saveSettings();
+                        }
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Tool and system messages")
+            .setDesc(
+                "Code interpreter runs, browsing, image generation and system prompts are shown as callouts. Choose how each kind is rendered."
+            )
+            .setHeading();
+
+        for (const [type, label] of Object.entries(TOOL_MESSAGE_LABELS)) {
+            const messageType = type as ToolMessageType;
+            new Setting(containerEl).setName(label).addDropdown((dropdown) =>
+                dropdown
+                    .addOption("include", "Include expanded")
+                    .addOption("collapse", "Include collapsed")
+                    .addOption("omit", "Omit")
+                    .setValue(
+                        this.plugin.settings.toolMessageDisplay[messageType]
+                    )
+                    .onChange(async (value) => {
+                        this.plugin.settings.toolMessageDisplay[messageType] =
+                            value as MessageDisplay;
+                        await this.plugin.saveSettings();
+                    })
+            );
+        }
+
+        new Setting(containerEl)
+            .setName("Templates")
+            .setDesc(
+                "Layout of imported notes. Leave a template empty to keep the built-in layout."
+            )
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName("Template note")
+            .setDesc(
+                "Vault note holding a `%% header %%` and/or a `%% message %%` section. Its sections take precedence over the fields below."
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("Templates/Chat layout.md")
+                    .setValue(this.plugin.settings.templateNotePath)
+                    .onChange(async (value) => {
+                        this.plugin.settings.templateNotePath = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        // Shown under the templates while the header keeps notes from updating
+        const templateWarning = createDiv({ cls: "mod-warning" });
+        const checkTemplateSettings = () => {
+            templateWarning.empty();
+            checkHeaderTemplate(this.plugin.settings.headerTemplate).forEach(
+                (problem) => templateWarning.createEl("p", { text: problem })
+            );
+        };
+
+        new Setting(containerEl)
+            .setName("Header template")
+            .setDesc(
+                "Placeholders: {{title}}, {{id}}, {{provider}}, {{created}}, {{updated}}, {{url}}, {{model}}, {{properties}}"
+            )
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder(DEFAULT_HEADER_TEMPLATE)
+                    .setValue(this.plugin.settings.headerTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.headerTemplate = value;
+                        checkTemplateSettings();
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Message template")
+            .setDesc(
+                "Placeholders: {{role}}, {{time}}, {{body}}, {{text}}, {{uid}}, {{model}}, {{heading}}, {{separator}}"
+            )
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder(DEFAULT_MESSAGE_TEMPLATE)
+                    .setValue(this.plugin.settings.messageTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.messageTemplate = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        containerEl.append(templateWarning);
+        checkTemplateSettings();
     }
 }
 
@@ -1223,7 +3222,19 @@ class ImportReport {
     private updated: ReportEntry[] = [];
     private skipped: ReportEntry[] = [];
     private failed: ReportEntry[] = [];
+    private messageChanges: {
+        title: string;
+        filePath: string;
+        messageId: string;
+        change: string;
+    }[] = [];
+    private conflicts: {
+        title: string;
+        filePath: string;
+        messageId: string;
+    }[] = [];
     private globalErrors: { message: string; details: string }[] = [];
+    private skippedRecords: { record: string; reason: string }[] = [];
     private summary: string = "";
 
     addParameters(currentDate: string, zipFileName: string): string {
@@ -1333,10 +3344,52 @@ totalSkippedImports: ${this.skipped.length}
         });
     }
 
+    addMessageChange(
+        title: string,
+        filePath: string,
+        messageId: string,
+        change: string
+    ) {
+        this.messageChanges.push({ title, filePath, messageId, change });
+    }
+
+    addMessageChanges(
+        title: string,
+        filePath: string,
+        { inserted, refreshed, conflicts }: MessageChanges
+    ) {
+        inserted.forEach(({ id, afterId }) =>
+            this.messageChanges.push({
+                title,
+                filePath,
+                messageId: id,
+                change: afterId
+                    ? `Inserted after \`${afterId}\``
+                    : "Inserted before the first message",
+            })
+        );
+        refreshed.forEach((id) =>
+            this.messageChanges.push({
+                title,
+                filePath,
+                messageId: id,
+                change: "Refreshed from source",
+            })
+        );
+        conflicts.forEach((id) =>
+            this.conflicts.push({ title, filePath, messageId: id })
+        );
+    }
+
     addError(message: string, details: string) {
         this.globalErrors.push({ message, details });
     }
 
+    // Entry of the export that is not a conversation the importer can read
+    addSkippedRecord(record: string, reason: string) {
+        this.skippedRecords.push({ record, reason });
+    }
+
     generateReportContent(): string {
         let content = "# Nexus AI Chat Importer report\n\n";
 
@@ -1364,6 +3417,12 @@ totalSkippedImports: ${this.skipped.length}
                 "Added messages",
             ]);
         }
+        if (this.messageChanges.length > 0) {
+            content += this.generateMessageChangesTable();
+        }
+        if (this.conflicts.length > 0) {
+            content += this.generateConflictsTable();
+        }
         if (this.skipped.length > 0) {
             content += this.generateTable("Skipped notes", this.skipped, "⏭️", [
                 "Title",
@@ -1372,6 +3431,9 @@ totalSkippedImports: ${this.skipped.length}
                 "Messages",
             ]);
         }
+        if (this.skippedRecords.length > 0) {
+            content += this.generateSkippedRecordsTable();
+        }
         if (this.failed.length > 0) {
             content += this.generateTable("Failed imports", this.failed, "🚫", [
                 "Title",
@@ -1423,6 +3485,49 @@ totalSkippedImports: ${this.skipped.length}
         return table + "\n\n";
     }
 
+    private generateMessageChangesTable(): string {
+        let table = "## Message changes\n\n";
+        table += "| | Title | Message | Change |\n";
+        table += "|---|:---|:---|:---|\n";
+        this.messageChanges.forEach((entry) => {
+            const sanitizedTitle = entry.title.replace(/\n/g, " ").trim();
+            table += `| 🔄 | [[${entry.filePath}\\|${sanitizedTitle}]] | \`${entry.messageId}\` | ${entry.change} |\n`;
+        });
+        return table + "\n\n";
+    }
+
+    // Messages left as they are in the note although their source changed
+    private generateConflictsTable(): string {
+        let table = "## Conflicts\n\n";
+        table +=
+            "These messages were edited in the note and at the source. The note's text was kept; compare it with the source and merge by hand.\n\n";
+        table += "| | Title | Message |\n";
+        table += "|---|:---|:---|\n";
+        this.conflicts.forEach((entry) => {
+            const sanitizedTitle = entry.title.replace(/\n/g, " ").trim();
+            table += `| ⚠️ | [[${entry.filePath}\\|${sanitizedTitle}]] | \`${entry.messageId}\` |\n`;
+        });
+        return table + "\n\n";
+    }
+
+    private generateSkippedRecordsTable(): string {
+        let table = "## Skipped records\n\n";
+        table +=
+            "These entries of the export could not be read as conversations and were not imported.\n\n";
+        table += "| | Entry | Reason |\n";
+        table += "|---|:---|:---|\n";
+        this.skippedRecords.forEach((entry) => {
+            const record = entry.record
+                .replace(/\s+/g, " ")
+                .replace(/\|/g, "\\|")
+                .trim();
+            table += `| ⏭️ | ${
+                record.length > 80 ? `${record.substring(0, 80)}…` : record
+            } | ${entry.reason} |\n`;
+        });
+        return table + "\n\n";
+    }
+
     private generateErrorTable(
         title: string,
         entries: { message: string; details: string }[],
@@ -0,0 +1,71 @@
+// math.ts
+
+// Fenced code blocks and inline code spans, whose backslashes are not LaTeX delimiters
+const CODE =
+    /^[ \t]*(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:\n[ \t]*\1[^\n]*(?=\n|$)|$)|(`+)[\s\S]+?\2(?!`)/gm;
+
+const DISPLAY_MATH = /\\\[([\s\S]+?)\\\]/g;
+const INLINE_MATH = /\\\(([\s\S]+?)\\\)/g;
+
+// `$$` on lines of their own, so the block still renders once every line is quoted
+function formatDisplayMath(
+    text: string,
+    start: number,
+    end: number,
+    inner: string
+): string {
+    const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+    const lineEnd = text.indexOf("\n", end);
+    const before = text.substring(lineStart, start);
+    const after = text.substring(end, lineEnd === -1 ? text.length : lineEnd);
+
+    // Inside a list item, the block lines up with the item's text
+    const prefix =
+        before.match(/^[ \t]*(?:(?:[-*+]|\d+[.)])[ \t]+)?/)?.[0] || "";
+    const indent = before.trim() ? " ".repeat(prefix.length) : prefix;
+
+    // A blank line would end the quote or callout around the message
+    const lines = inner
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line);
+    const block = ["$$", ...lines, "$$"]
+        .map((line) => indent + line)
+        .join("\n");
+
+    // The line's own indentation already precedes a delimiter at the start of a line
+    const opening = before.trim()
+        ? `\n${block}`
+        : block.substring(indent.length);
+    return opening + (after.trim() ? `\n${indent}` : "");
+}
+
+function convertDelimiters(text: string): string {
+    return text
+        .replace(DISPLAY_MATH, (match: string, inner: string, offset: number) =>
+            formatDisplayMath(text, offset, offset + match.length, inner)
+        )
+        .replace(INLINE_MATH, (_, inner: string) => {
+            // Obsidian needs the `$` next to the formula, without spaces
+            return `$${inner.replace(/\s*\n\s*/g, " ").trim()}$`;
+        });
+}
+
+/**
+ * Rewrite ChatGPT's `\( … \)` and `\[ … \]` delimiters as `$…$` and `$$…$$`, which Obsidian renders.
+ * Code spans and code blocks are left as they are.
+ */
+export function normalizeMath(text: string): string {
+    if (!text.includes("\\(") && !text.includes("\\[")) return text;
+
+    let result = "";
+    let last = 0;
+    let match;
+    CODE.lastIndex = 0;
+    while ((match = CODE.exec(text)) !== null) {
+        result += convertDelimiters(text.substring(last, match.index));
+        result += match[0];
+        last = match.index + match[0].length;
+    }
+    return result + convertDelimiters(text.substring(last));
+}
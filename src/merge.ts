@@ -0,0 +1,303 @@
+// merge.ts
+import { ChatMessage } from "./types";
+import { hashString } from "./utils";
+
+// A message rendered at the top level of a note, from its heading to its UID marker
+export interface MessageBlock {
+    id: string;
+    start: number; // Start of the start marker, or of the heading line in notes from earlier versions
+    bodyStart: number; // End of the heading line
+    uidStart: number; // Start of the `<!-- UID -->` line
+    end: number; // End of the `<!-- UID -->` line
+    clean: boolean; // False when the block holds lines the importer did not write
+    fingerprint?: string; // Hash of the text as imported; missing in notes from earlier versions
+}
+
+export interface MessageInsertion {
+    id: string;
+    afterId?: string; // Undefined when inserted before the first message
+}
+
+export interface MessageChanges {
+    inserted: MessageInsertion[];
+    refreshed: string[];
+    conflicts: string[]; // Edited in the note and at the source; the note's text was kept
+}
+
+export interface MergeResult extends MessageChanges {
+    content: string;
+}
+
+// `<!-- UID: <id> #<fingerprint> -->`, the fingerprint being optional
+const UID_LINE = /^<!-- UID: (.*?)(?: #([0-9a-f]{1,8}))? -->$/gm;
+const UID_ANYWHERE = /<!-- UID: (.*?)(?: #[0-9a-f]{1,8})? -->/g;
+const HEADING_LINE = /^#{3,4} .*$/gm;
+
+// Line above each message: headings alone cannot tell it from headings in plain text answers
+export const MESSAGE_START = "<!-- MESSAGE -->";
+const MESSAGE_START_LINE = new RegExp(`^${MESSAGE_START}$`, "gm");
+const HEADING_AFTER_START = /^#{1,6} .*(?:\n|$)/;
+
+// Everything from this line on belongs to the user and is never changed by updates
+export const USER_NOTES_MARKER = "<!-- USER NOTES -->";
+
+const USER_NOTES_LINE = new RegExp(`^${USER_NOTES_MARKER}$`, "m");
+
+// Start of the user notes block, or of the Related notes or Sources section after the last message
+const TRAILING_SECTION = new RegExp(
+    `^(?:${USER_NOTES_MARKER}|## Related notes|## Sources)$`,
+    "gm"
+);
+
+export function findMessageBlocks(content: string): MessageBlock[] {
+    const blocks: MessageBlock[] = [];
+    let previousEnd = 0;
+    let match;
+
+    UID_LINE.lastIndex = 0;
+    while ((match = UID_LINE.exec(content)) !== null) {
+        const uidStart = match.index;
+        const end = Math.min(
+            content.length,
+            uidStart + match[0].length + 1 // Include the line break
+        );
+
+        // Last start marker between the previous message and this one, then the heading right below it
+        const region = content.substring(previousEnd, uidStart);
+        let markerStart = -1;
+        let found;
+        MESSAGE_START_LINE.lastIndex = 0;
+        while ((found = MESSAGE_START_LINE.exec(region)) !== null) {
+            markerStart = previousEnd + found.index;
+        }
+
+        let headingStart = -1;
+        let headingEnd = -1;
+        if (markerStart >= 0) {
+            const markerEnd = markerStart + MESSAGE_START.length + 1;
+            const heading = content
+                .substring(markerEnd, uidStart)
+                .match(HEADING_AFTER_START);
+            headingStart = markerEnd;
+            headingEnd = markerEnd + (heading ? heading[0].length : 0);
+        } else {
+            // Notes from earlier versions: the last heading before the marker
+            let heading;
+            HEADING_LINE.lastIndex = 0;
+            while ((heading = HEADING_LINE.exec(region)) !== null) {
+                headingStart = previousEnd + heading.index;
+                headingEnd = headingStart + heading[0].length + 1;
+            }
+        }
+
+        const start =
+            markerStart >= 0
+                ? markerStart
+                : headingStart >= 0
+                ? headingStart
+                : uidStart;
+        const bodyStart = headingStart >= 0 ? headingEnd : uidStart;
+        const clean =
+            headingStart >= 0 &&
+            content
+                .substring(bodyStart, uidStart)
+                .split("\n")
+                .every((line) => line === "" || line.startsWith(">"));
+
+        blocks.push({
+            id: match[1],
+            start,
+            bodyStart,
+            uidStart,
+            end,
+            clean,
+            fingerprint: match[2],
+        });
+        previousEnd = end;
+    }
+
+    return blocks;
+}
+
+// IDs of every message marker in the content, including those inside collapsed branches
+export function findMessageIds(content: string): string[] {
+    const ids: string[] = [];
+    let match;
+    UID_ANYWHERE.lastIndex = 0;
+    while ((match = UID_ANYWHERE.exec(content)) !== null) {
+        ids.push(match[1]);
+    }
+    return ids;
+}
+
+// Links added to the text after import, by the importer or by hand, are not an edit of the message
+function withoutWikilinks(text: string): string {
+    return text.replace(/\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, "$1");
+}
+
+function normalizeBody(body: string): string {
+    return withoutWikilinks(body)
+        .split("\n")
+        .map((line) => line.trimEnd())
+        .join("\n")
+        .trim();
+}
+
+function getFingerprint(body: string): string {
+    return hashString(normalizeBody(body));
+}
+
+/**
+ * Record a hash of the message text in its UID marker, so later updates can tell text edited in the note
+ * from text edited at the source.
+ */
+export function addFingerprint(formatted: string): string {
+    const block = findMessageBlocks(formatted)[0];
+    if (!block) return formatted;
+    const fingerprint = getFingerprint(
+        formatted.substring(block.bodyStart, block.uidStart)
+    );
+    const markerEnd = formatted.indexOf("-->", block.uidStart) + "-->".length;
+    return (
+        formatted.substring(0, block.uidStart) +
+        `<!-- UID: ${block.id} #${fingerprint} -->` +
+        formatted.substring(markerEnd)
+    );
+}
+
+// Whether the text of a block differs from what the importer wrote
+function isEditedInNote(content: string, block: MessageBlock): boolean {
+    if (!block.fingerprint) return !block.clean; // Earlier versions kept no fingerprint
+    const body = content.substring(block.bodyStart, block.uidStart);
+    return getFingerprint(body) !== block.fingerprint;
+}
+
+/**
+ * Where the thread ends and new messages and branches are added: after the last message and any text
+ * written below it, but before the user notes block and the sections the importer keeps at the end.
+ */
+export function findThreadEnd(content: string): number {
+    const blocks = findMessageBlocks(content);
+    const lastEnd = blocks.length > 0 ? blocks[blocks.length - 1].end : 0;
+    TRAILING_SECTION.lastIndex = lastEnd;
+    const section = TRAILING_SECTION.exec(content);
+    return section ? section.index : content.length;
+}
+
+/**
+ * Add one of the sections kept at the end of the note, such as Sources: below the thread and the
+ * sections already there, but above the user notes block, which updates never touch.
+ */
+export function addTrailingSection(content: string, section: string): string {
+    const blocks = findMessageBlocks(content);
+    const lastEnd = blocks.length > 0 ? blocks[blocks.length - 1].end : 0;
+    const notes = content.substring(lastEnd).search(USER_NOTES_LINE);
+    if (notes < 0) return `${content.trimEnd()}\n\n${section}`;
+
+    const position = lastEnd + notes;
+    return `${content
+        .substring(0, position)
+        .trimEnd()}\n\n${section}\n${content.substring(position)}`;
+}
+
+function getBody(formatted: string): string {
+    const block = findMessageBlocks(formatted)[0];
+    return block ? formatted.substring(block.bodyStart, block.uidStart) : "";
+}
+
+/**
+ * Merge the active thread into an existing note: new messages are inserted after the closest
+ * earlier message of the thread, and untouched messages whose text changed are rewritten.
+ */
+export function mergeMessages(
+    content: string,
+    thread: ChatMessage[],
+    format: (message: ChatMessage) => string
+): MergeResult {
+    const blocks = findMessageBlocks(content);
+    const blocksById = new Map(blocks.map((block) => [block.id, block]));
+    const threadEnd = findThreadEnd(content);
+
+    // Messages already present anywhere, including inside collapsed branches
+    const knownIds = new Set(findMessageIds(content));
+
+    const edits: { start: number; end: number; text: string }[] = [];
+    const inserted: MessageInsertion[] = [];
+    const refreshed: string[] = [];
+    const conflicts: string[] = [];
+
+    let anchorId: string | undefined;
+    let pending: ChatMessage[] = [];
+
+    const flushPending = (beforeBlock?: MessageBlock) => {
+        if (pending.length === 0) return;
+        const anchor = anchorId ? blocksById.get(anchorId) : undefined;
+        // Text written below a message stays with it, so new messages go after that text
+        const next = anchor ? blocks[blocks.indexOf(anchor) + 1] : beforeBlock;
+        const position = next ? next.start : threadEnd;
+        const prefix =
+            position > 0 && !content.substring(0, position).endsWith("\n\n")
+                ? "\n\n"
+                : "";
+        edits.push({
+            start: position,
+            end: position,
+            text: prefix + pending.map(format).join(""),
+        });
+        pending.forEach((message) =>
+            inserted.push({ id: message.id, afterId: anchorId })
+        );
+        pending = [];
+    };
+
+    for (const message of thread) {
+        const block = blocksById.get(message.id);
+        if (block) {
+            if (!anchorId) flushPending(block);
+
+            // Refresh the text of messages that were edited at the source, unless the note was edited too
+            const formatted = format(message);
+            const body = getBody(formatted);
+            const existingBody = content.substring(
+                block.bodyStart,
+                block.uidStart
+            );
+            if (normalizeBody(existingBody) !== normalizeBody(body)) {
+                if (!isEditedInNote(content, block)) {
+                    // The marker closes the message; its body may hold `-->` of its own
+                    const uidStart = formatted.lastIndexOf("<!-- UID: ");
+                    const uidEnd =
+                        formatted.indexOf(" -->", uidStart) + " -->".length;
+                    edits.push({
+                        start: block.start,
+                        end:
+                            content.indexOf("-->", block.uidStart) +
+                            "-->".length,
+                        text: formatted.substring(0, uidEnd),
+                    });
+                    refreshed.push(message.id);
+                } else if (block.fingerprint !== getFingerprint(body)) {
+                    conflicts.push(message.id);
+                }
+            }
+
+            if (pending.length > 0) flushPending();
+            anchorId = message.id;
+        } else if (!knownIds.has(message.id)) {
+            pending.push(message);
+        }
+    }
+    flushPending();
+
+    // Apply from the end so earlier offsets stay valid
+    edits.sort((a, b) => b.start - a.start || b.end - a.end);
+    let merged = content;
+    for (const edit of edits) {
+        merged =
+            merged.substring(0, edit.start) +
+            edit.text +
+            merged.substring(edit.end);
+    }
+
+    return { content: merged, inserted, refreshed, conflicts };
+}
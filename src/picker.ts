@@ -0,0 +1,319 @@
+// picker.ts
+import { App, Modal, Setting, debounce } from "obsidian";
+
+import { ConversationFilter } from "./types";
+
+// A conversation of an export, as listed for choosing what to import
+export interface PickerItem {
+    key: string; // Catalog key
+    title: string;
+    createTime: number;
+    models: string[];
+    gpt?: string; // Custom GPT ID
+    project?: string; // Project ID
+    messageCount: number;
+    status: "new" | "changed" | "unchanged"; // Compared with the catalog
+    matches: (query: string) => boolean; // Whether the title or a message holds the lowercased query
+}
+
+export const DEFAULT_CONVERSATION_FILTER: ConversationFilter = {
+    query: "",
+    from: "",
+    to: "",
+    model: "",
+    group: "",
+    minMessages: 0,
+    maxMessages: 0,
+    newOrChangedOnly: false,
+};
+
+// Rows rendered at once; the others are reached by narrowing the filter
+const MAX_ROWS = 200;
+
+const STATUS_LABELS: Record<PickerItem["status"], string> = {
+    new: "New",
+    changed: "Changed",
+    unchanged: "Imported",
+};
+
+// Local date as YYYY-MM-DD, comparable with the values of date inputs
+function getLocalDate(unixTime: number): string {
+    const date = new Date(unixTime * 1000);
+    return [
+        date.getFullYear(),
+        String(date.getMonth() + 1).padStart(2, "0"),
+        String(date.getDate()).padStart(2, "0"),
+    ].join("-");
+}
+
+function getGroup(item: PickerItem): string {
+    if (item.project) return `project:${item.project}`;
+    if (item.gpt) return `gpt:${item.gpt}`;
+    return "none";
+}
+
+export function matchesFilter(
+    item: PickerItem,
+    filter: ConversationFilter
+): boolean {
+    const date = getLocalDate(item.createTime);
+    const query = filter.query.trim().toLowerCase();
+    return (
+        (!query || item.matches(query)) &&
+        (!filter.from || date >= filter.from) &&
+        (!filter.to || date <= filter.to) &&
+        (!filter.model || item.models.includes(filter.model)) &&
+        (!filter.group || getGroup(item) === filter.group) &&
+        (!filter.minMessages || item.messageCount >= filter.minMessages) &&
+        (!filter.maxMessages || item.messageCount <= filter.maxMessages) &&
+        (!filter.newOrChangedOnly || item.status !== "unchanged")
+    );
+}
+
+/**
+ * Lists the conversations of an export with filters, all ticked at first. The conversations both shown
+ * and ticked are imported; the filter is handed back so it can be offered again next time.
+ */
+class ConversationPickerModal extends Modal {
+    private selected: Set<string>;
+    private visible: PickerItem[] = [];
+    private listEl = createDiv({ cls: "nexus-ai-chat-importer-picker" });
+    private countEl = createEl("p");
+    private chosen?: string[];
+
+    constructor(
+        app: App,
+        private items: PickerItem[],
+        private filter: ConversationFilter,
+        private onDone: (
+            keys: string[] | undefined,
+            filter: ConversationFilter
+        ) => void
+    ) {
+        super(app);
+        this.selected = new Set(items.map((item) => item.key));
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass("nexus-ai-chat-importer-modal");
+        this.titleEl.setText("Choose conversations to import");
+
+        const models = Array.from(
+            new Set(this.items.flatMap((item) => item.models))
+        ).sort();
+        const groups = Array.from(new Set(this.items.map(getGroup)))
+            .filter((group) => group !== "none")
+            .sort();
+
+        new Setting(contentEl).setName("Search").addText((text) =>
+            text
+                .setPlaceholder("Title or message text")
+                .setValue(this.filter.query)
+                .onChange(
+                    debounce(
+                        (value: string) => this.update({ query: value }),
+                        300,
+                        true
+                    )
+                )
+        );
+
+        new Setting(contentEl)
+            .setName("Started between")
+            .addText((text) => {
+                text.inputEl.type = "date";
+                text.setValue(this.filter.from).onChange((value) =>
+                    this.update({ from: value })
+                );
+            })
+            .addText((text) => {
+                text.inputEl.type = "date";
+                text.setValue(this.filter.to).onChange((value) =>
+                    this.update({ to: value })
+                );
+            });
+
+        new Setting(contentEl)
+            .setName("Model, GPT or project")
+            .addDropdown((dropdown) => {
+                dropdown.addOption("", "Any model");
+                models.forEach((model) => dropdown.addOption(model, model));
+                dropdown
+                    .setValue(
+                        models.includes(this.filter.model)
+                            ? this.filter.model
+                            : ""
+                    )
+                    .onChange((value) => this.update({ model: value }));
+            })
+            .addDropdown((dropdown) => {
+                dropdown.addOption("", "Any GPT or project");
+                dropdown.addOption("none", "No GPT or project");
+                groups.forEach((group) =>
+                    dropdown.addOption(
+                        group,
+                        group.startsWith("project:")
+                            ? `Project ID ${group.substring(8)}`
+                            : `GPT ID ${group.substring(4)}`
+                    )
+                );
+                dropdown
+                    .setValue(
+                        this.filter.group === "none" ||
+                            groups.includes(this.filter.group)
+                            ? this.filter.group
+                            : ""
+                    )
+                    .onChange((value) => this.update({ group: value }));
+            });
+
+        new Setting(contentEl)
+            .setName("Messages")
+            .setDesc("Minimum and maximum; empty for no limit")
+            .addText((text) => {
+                text.inputEl.type = "number";
+                text.setPlaceholder("Min")
+                    .setValue(
+                        this.filter.minMessages
+                            ? `${this.filter.minMessages}`
+                            : ""
+                    )
+                    .onChange((value) =>
+                        this.update({ minMessages: parseInt(value) || 0 })
+                    );
+            })
+            .addText((text) => {
+                text.inputEl.type = "number";
+                text.setPlaceholder("Max")
+                    .setValue(
+                        this.filter.maxMessages
+                            ? `${this.filter.maxMessages}`
+                            : ""
+                    )
+                    .onChange((value) =>
+                        this.update({ maxMessages: parseInt(value) || 0 })
+                    );
+            });
+
+        new Setting(contentEl)
+            .setName("New or changed only")
+            .setDesc(
+                "Hide conversations imported before that have not changed since"
+            )
+            .addToggle((toggle) =>
+                toggle
+                    .setValue(this.filter.newOrChangedOnly)
+                    .onChange((value) =>
+                        this.update({ newOrChangedOnly: value })
+                    )
+            );
+
+        new Setting(contentEl)
+            .addButton((button) =>
+                button.setButtonText("Select all").onClick(() => {
+                    this.visible.forEach((item) => this.selected.add(item.key));
+                    this.renderList();
+                })
+            )
+            .addButton((button) =>
+                button.setButtonText("Select none").onClick(() => {
+                    this.visible.forEach((item) =>
+                        this.selected.delete(item.key)
+                    );
+                    this.renderList();
+                })
+            );
+
+        contentEl.append(this.listEl, this.countEl);
+
+        const buttonDiv = contentEl.createEl("div", {
+            cls: "button-container",
+        });
+        buttonDiv
+            .createEl("button", { text: "Import", cls: "mod-cta" })
+            .addEventListener("click", () => {
+                this.chosen = this.visible
+                    .filter((item) => this.selected.has(item.key))
+                    .map((item) => item.key);
+                this.close();
+            });
+        buttonDiv
+            .createEl("button", { text: "Cancel" })
+            .addEventListener("click", () => this.close());
+
+        this.update({});
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.onDone(this.chosen, this.filter);
+    }
+
+    private update(change: Partial<ConversationFilter>) {
+        this.filter = { ...this.filter, ...change };
+        this.visible = this.items.filter((item) =>
+            matchesFilter(item, this.filter)
+        );
+        this.renderList();
+    }
+
+    private renderList() {
+        this.listEl.empty();
+        for (const item of this.visible.slice(0, MAX_ROWS)) {
+            const row = this.listEl.createEl("label", {
+                cls: "nexus-ai-chat-importer-picker-item",
+            });
+            const checkbox = row.createEl("input", { type: "checkbox" });
+            checkbox.checked = this.selected.has(item.key);
+            checkbox.addEventListener("change", () => {
+                if (checkbox.checked) this.selected.add(item.key);
+                else this.selected.delete(item.key);
+                this.renderCount();
+            });
+            row.createEl("span", { text: item.title || "Untitled" });
+            row.createEl("span", {
+                cls: "nexus-ai-chat-importer-picker-details",
+                text: [
+                    getLocalDate(item.createTime),
+                    item.models.join(", "),
+                    `${item.messageCount} messages`,
+                    STATUS_LABELS[item.status],
+                ]
+                    .filter((detail) => detail)
+                    .join(" · "),
+            });
+        }
+        if (this.visible.length > MAX_ROWS) {
+            this.listEl.createEl("p", {
+                cls: "nexus-ai-chat-importer-picker-details",
+                text: `${
+                    this.visible.length - MAX_ROWS
+                } more conversations match: narrow the filter to list them. Select all and Select none include them.`,
+            });
+        }
+        this.renderCount();
+    }
+
+    private renderCount() {
+        const count = this.visible.filter((item) =>
+            this.selected.has(item.key)
+        ).length;
+        this.countEl.setText(
+            `${count} of ${this.items.length} conversations will be imported`
+        );
+    }
+}
+
+// Resolves with the keys of the chosen conversations, or undefined when the picker is cancelled
+export async function pickConversations(
+    app: App,
+    items: PickerItem[],
+    filter: ConversationFilter
+): Promise<{ keys?: string[]; filter: ConversationFilter }> {
+    return new Promise((resolve) => {
+        new ConversationPickerModal(app, items, filter, (keys, filter) =>
+            resolve({ keys, filter })
+        ).open();
+    });
+}
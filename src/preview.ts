@@ -0,0 +1,84 @@
+// preview.ts
+
+/**
+ * Changes an import would make to the vault, collected by running it without writing. Notes, renames
+ * and attachments are recorded per export file, alongside the report the import would have written.
+ */
+export class ImportPreview {
+    private files: { fileName: string; content: string }[] = [];
+    private writes = new Map<string, "create" | "update">();
+    private renames: { from: string; to: string }[] = [];
+    private attachments = new Set<string>();
+    private planned = new Set<string>(); // Paths created by earlier files of the same preview
+    private importedOn?: string; // When the current export file was imported before
+    reimported: string[] = []; // Hashes of export files that were already imported
+
+    markReimported(hash: string, date: string) {
+        this.reimported.push(hash);
+        this.importedOn = date;
+    }
+
+    addWrite(path: string, exists: boolean) {
+        if (!this.writes.has(path)) {
+            this.writes.set(
+                path,
+                exists || this.planned.has(path) ? "update" : "create"
+            );
+        }
+        this.planned.add(path);
+    }
+
+    addRename(from: string, to: string) {
+        this.renames.push({ from, to });
+    }
+
+    addAttachment(path: string) {
+        this.attachments.add(path);
+        this.planned.add(path);
+    }
+
+    // Whether the import would create the file, or a file inside the folder, at `path`
+    has(path: string): boolean {
+        if (this.planned.has(path)) return true;
+        return Array.from(this.planned).some((planned) =>
+            planned.startsWith(`${path}/`)
+        );
+    }
+
+    // Close the changes of one export file, with the report its import would write
+    addFile(fileName: string, report: string) {
+        let content = report.replace(/^# .*\n/, `# ${fileName}\n`);
+        if (this.importedOn) {
+            content = content.replace(
+                /\n/,
+                `\n\nThis file was already imported on ${this.importedOn}. Importing it again will not alter existing notes.\n`
+            );
+        }
+        content += "## Planned changes\n\n";
+
+        const lines = [
+            ...Array.from(this.writes).map(([path, action]) =>
+                action === "create"
+                    ? `- ✨ Create \`${path}\``
+                    : `- 🔄 Update \`${path}\``
+            ),
+            ...this.renames.map(
+                ({ from, to }) => `- ➡️ Move \`${from}\` to \`${to}\``
+            ),
+        ];
+        if (this.attachments.size > 0) {
+            lines.push(`- 📎 Copy ${this.attachments.size} attachments`);
+        }
+        content += lines.length > 0 ? lines.join("\n") : "No changes.";
+
+        this.files.push({ fileName, content: `${content}\n` });
+        this.writes.clear();
+        this.renames = [];
+        this.attachments.clear();
+        this.importedOn = undefined;
+    }
+
+    format(): string {
+        return this.files.map((file) => file.content).join("\n---\n\n");
+    }
+}
@@ -0,0 +1,142 @@
+// properties.ts
+import { moment } from "obsidian";
+
+import { PropertyValue } from "./types";
+import { formatTimestamp } from "./utils";
+import { findMessageBlocks } from "./merge";
+
+const FRONTMATTER = /^---\n([\s\S]*?\n)---\n/;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// Plain scalars that YAML would read as another type or fail to parse
+function needsQuotes(value: string): boolean {
+    return (
+        value === "" ||
+        /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+        /:\s|\s#|\s$/.test(value) ||
+        /^(true|false|yes|no|null|~|[-+]?[\d.]+(e[-+]?\d+)?)$/i.test(value)
+    );
+}
+
+function formatScalar(value: string | number | boolean): string {
+    if (typeof value !== "string") return String(value);
+    return needsQuotes(value) ? JSON.stringify(value) : value;
+}
+
+// Missing values, `false` and empty lists leave the property out
+export function formatProperty(key: string, value: PropertyValue): string {
+    if (value === undefined || value === false) return "";
+    if (Array.isArray(value)) {
+        return value.length
+            ? `${key}:\n${value
+                  .map((item) => `  - ${formatScalar(item)}\n`)
+                  .join("")}`
+            : "";
+    }
+    return `${key}: ${formatScalar(value)}\n`;
+}
+
+// Replace each property in the frontmatter, or add it before the closing line
+export function setProperties(
+    content: string,
+    properties: Record<string, PropertyValue>
+): string {
+    const match = content.match(FRONTMATTER);
+    if (!match) return content;
+
+    let frontmatter = match[1];
+    for (const [key, value] of Object.entries(properties)) {
+        const formatted = formatProperty(key, value);
+        const existing = getPropertyPattern(key);
+        frontmatter = existing.test(frontmatter)
+            ? frontmatter.replace(existing, () => formatted)
+            : frontmatter + formatted;
+    }
+    return `---\n${frontmatter}---\n${content.substring(match[0].length)}`;
+}
+
+function getPropertyPattern(key: string): RegExp {
+    return new RegExp(`^${key}:.*\\n(?:[ \\t]+- .*\\n)*`, "m");
+}
+
+// Raw value of a single-line property
+function getProperty(frontmatter: string, key: string): string | undefined {
+    const match = frontmatter.match(new RegExp(`^${key}:[ \\t]*(.*)$`, "m"));
+    return match ? match[1].trim() : undefined;
+}
+
+export function formatIsoTime(unixTime: number): string {
+    return formatTimestamp(unixTime, "iso");
+}
+
+export function countWords(text: string): number {
+    const words = text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu);
+    return words ? words.length : 0;
+}
+
+// "10/19/2026 at 3:04 PM", as written by earlier versions in the current locale
+function parseLegacyTime(value: string): string | undefined {
+    const localeData = moment.localeData();
+    const legacy = moment(
+        value,
+        `${localeData.longDateFormat("L")} [at] ${localeData.longDateFormat(
+            "LT"
+        )}`,
+        true
+    );
+    if (legacy.isValid()) return formatIsoTime(legacy.unix());
+
+    const fallback = Date.parse(value.replace(" at ", " "));
+    return isNaN(fallback) ? undefined : formatIsoTime(fallback / 1000);
+}
+
+// Words of the messages in a note, without quote marks, callout titles and markers
+function countNoteWords(content: string): number {
+    return findMessageBlocks(content).reduce((total, block) => {
+        const body = content
+            .substring(block.bodyStart, block.uidStart)
+            .split("\n")
+            .map((line) => line.replace(/^(?:>\s?)+/, ""))
+            .filter((line) => !/^\[![\w-]+\][+-]?/.test(line))
+            .join("\n");
+        return total + countWords(body);
+    }, 0);
+}
+
+/**
+ * Bring the properties of a note written by an earlier version up to date: ISO dates, list-typed
+ * aliases, tags and message counts. Notes already in the current format are returned unchanged.
+ */
+export function migrateProperties(content: string, tags: string[]): string {
+    const match = content.match(FRONTMATTER);
+    if (!match) return content;
+    const frontmatter = match[1];
+    const properties: Record<string, PropertyValue> = {};
+
+    for (const key of ["create_time", "update_time"]) {
+        const value = getProperty(frontmatter, key);
+        if (value && !ISO_DATETIME.test(value)) {
+            const iso = parseLegacyTime(value.replace(/^"|"$/g, ""));
+            if (iso) properties[key] = iso;
+        }
+    }
+
+    const aliases = getProperty(frontmatter, "aliases");
+    if (aliases) {
+        // Scalar alias from earlier versions; list-typed aliases leave the line empty
+        properties.aliases = [aliases.replace(/^"(.*)"$/, "$1")];
+    }
+
+    // Counts are written with every note since typed properties, so their absence marks an older note
+    if (getProperty(frontmatter, "message_count") === undefined) {
+        if (tags.length && getProperty(frontmatter, "tags") === undefined) {
+            properties.tags = tags;
+        }
+        properties.message_count = findMessageBlocks(content).length;
+        properties.word_count = countNoteWords(content);
+    }
+
+    return Object.keys(properties).length
+        ? setProperties(content, properties)
+        : content;
+}
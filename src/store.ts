@@ -0,0 +1,285 @@
+// store.ts
+import { Vault } from "obsidian";
+
+import { ConversationCatalogEntry, ImportedArchive } from "./types";
+import { ensureFolderExists } from "./utils";
+
+// What the importer remembers between imports
+export interface CatalogState {
+    conversations: Record<string, ConversationCatalogEntry>;
+    archives: Record<string, ImportedArchive>; // File hash -> archive
+}
+
+// Latest known value of one conversation or archive; a record without a value marks a removal
+interface StoreRecord {
+    key: string; // "conversation:<catalog key>" or "archive:<file hash>"
+    at: number; // When the value was last changed, in milliseconds
+    device: string;
+    value?: ConversationCatalogEntry | ImportedArchive;
+}
+
+interface ImportLock {
+    device: string;
+    at: number;
+}
+
+// An import that has not released its lock after this long is assumed to have been interrupted
+const LOCK_TIMEOUT = 60 * 60 * 1000;
+
+const DEVICE_FILE = /^[0-9a-f]{8}\.md$/;
+// "a1b2c3d4 2.md" (iCloud), "a1b2c3d4 (Conflicted copy ….md" (Obsidian Sync), "a1b2c3d4.sync-conflict-….md"
+const CONFLICT_COPY = /^[0-9a-f]{8}\b.+\.md$/;
+const LOCK_FILES = /^import-lock\b.*\.md$/;
+
+const FILE_HEADER =
+    "%% Nexus AI Chat Importer catalog written by one device. It is rewritten on every import: do not edit it. %%\n";
+
+// Same JSON for the same value, whatever order its properties were set in
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const record = value as Record<string, unknown>;
+        return `{${Object.keys(record)
+            .filter((key) => record[key] !== undefined)
+            .sort()
+            .map(
+                (key) =>
+                    `${JSON.stringify(key)}:${stableStringify(record[key])}`
+            )
+            .join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+// One JSON object per line; lines that do not parse are skipped
+function parseLines<T>(content: string): T[] {
+    const items: T[] = [];
+    for (const line of content.split("\n")) {
+        if (!line.startsWith("{")) continue;
+        try {
+            items.push(JSON.parse(line));
+        } catch {
+            // A line cut short by an interrupted sync
+        }
+    }
+    return items;
+}
+
+/**
+ * Catalog kept in the vault, so it syncs with the notes. Each device writes only its own file, holding
+ * every record it knows of, and reads the files of all devices: for each conversation or archive, the
+ * most recent change wins. Devices never write the same file, so syncing never has to choose between
+ * two versions; conflict copies made anyway are read like any other file, then removed.
+ */
+export class CatalogStore {
+    private records = new Map<string, StoreRecord>();
+
+    constructor(
+        private vault: Vault,
+        private device: string,
+        private getFolder: () => string
+    ) {}
+
+    private get ownFile(): string {
+        return `${this.getFolder()}/${this.device}.md`;
+    }
+
+    // One lock file per device, so devices never write the same file
+    private get ownLockFile(): string {
+        return `${this.getFolder()}/import-lock-${this.device}.md`;
+    }
+
+    private async listFiles(pattern: RegExp): Promise<string[]> {
+        const folder = this.getFolder();
+        if (!(await this.vault.adapter.exists(folder))) return [];
+        const { files } = await this.vault.adapter.list(folder);
+        return files.filter((path) =>
+            pattern.test(path.substring(path.lastIndexOf("/") + 1))
+        );
+    }
+
+    private merge(record: StoreRecord) {
+        const known = this.records.get(record.key);
+        if (
+            !known ||
+            record.at > known.at ||
+            (record.at === known.at && record.device > known.device)
+        ) {
+            this.records.set(record.key, record);
+        }
+    }
+
+    private getState(): CatalogState {
+        const state: CatalogState = { conversations: {}, archives: {} };
+        for (const record of this.records.values()) {
+            if (!record.value) continue;
+            // A copy, so changes made in place are still told apart from the record on save
+            const value = JSON.parse(JSON.stringify(record.value));
+            const key = record.key;
+            const separator = key.indexOf(":");
+            const id = key.substring(separator + 1);
+            if (key.startsWith("conversation:")) {
+                state.conversations[id] = value as ConversationCatalogEntry;
+            } else if (key.startsWith("archive:")) {
+                state.archives[id] = value as ImportedArchive;
+            }
+        }
+        return state;
+    }
+
+    /**
+     * Reconcile the files of all devices with what this device already knows. `legacy` holds the catalog
+     * of versions that kept it in the plugin data: it fills gaps but never overrides a recorded change.
+     * Returns the state and the conflict copies that were merged and removed.
+     */
+    async load(
+        legacy?: CatalogState
+    ): Promise<{ state: CatalogState; conflictCopies: string[] }> {
+        const files = await this.listFiles(DEVICE_FILE);
+        const conflictCopies = (await this.listFiles(CONFLICT_COPY)).filter(
+            (path) => !files.includes(path)
+        );
+
+        for (const path of [...files, ...conflictCopies]) {
+            const content = await this.vault.adapter.read(path);
+            parseLines<StoreRecord>(content)
+                .filter((record) => record.key && typeof record.at === "number")
+                .forEach((record) => this.merge(record));
+        }
+
+        if (legacy) {
+            const records: [string, StoreRecord["value"]][] = [
+                ...Object.entries(legacy.conversations).map(
+                    ([id, entry]): [string, StoreRecord["value"]] => [
+                        `conversation:${id}`,
+                        entry,
+                    ]
+                ),
+                ...Object.entries(legacy.archives).map(
+                    ([hash, archive]): [string, StoreRecord["value"]] => [
+                        `archive:${hash}`,
+                        archive,
+                    ]
+                ),
+            ];
+            for (const [key, value] of records) {
+                if (!this.records.has(key)) {
+                    this.records.set(key, {
+                        key,
+                        at: 0, // Older than any change recorded by a device
+                        device: this.device,
+                        value,
+                    });
+                }
+            }
+        }
+
+        if (conflictCopies.length > 0 || legacy) {
+            await this.write();
+            for (const path of conflictCopies) {
+                await this.vault.adapter.remove(path);
+            }
+        }
+        return { state: this.getState(), conflictCopies };
+    }
+
+    // Record what changed since the last load or save, and write this device's file if anything did
+    async save(state: CatalogState): Promise<void> {
+        const now = Date.now();
+        const current = new Map<string, StoreRecord["value"]>();
+        for (const [id, entry] of Object.entries(state.conversations)) {
+            current.set(`conversation:${id}`, entry);
+        }
+        for (const [hash, archive] of Object.entries(state.archives)) {
+            current.set(`archive:${hash}`, archive);
+        }
+
+        let changed = false;
+        const update = (key: string, value: StoreRecord["value"]) => {
+            const known = this.records.get(key)?.value;
+            if (stableStringify(known) === stableStringify(value)) return;
+            this.records.set(key, { key, at: now, device: this.device, value });
+            changed = true;
+        };
+        current.forEach((value, key) => update(key, value));
+        Array.from(this.records.keys())
+            .filter((key) => !current.has(key))
+            .forEach((key) => update(key, undefined));
+
+        if (changed) await this.write();
+    }
+
+    private async write(): Promise<void> {
+        const folderResult = await ensureFolderExists(
+            this.getFolder(),
+            this.vault
+        );
+        if (!folderResult.success) {
+            throw new Error(
+                folderResult.error || "Failed to ensure folder exists."
+            );
+        }
+
+        const lines = Array.from(this.records.values())
+            .sort((a, b) => a.key.localeCompare(b.key))
+            .map((record) => JSON.stringify(record));
+        await this.vault.adapter.write(
+            this.ownFile,
+            `${FILE_HEADER}\n\`\`\`json\n${lines.join("\n")}\n\`\`\`\n`
+        );
+    }
+
+    /**
+     * Take the import lock, unless another device holds it. Returns that device's lock when it does.
+     * The lock only reaches other devices once synced, so it guards against overlapping imports, not
+     * against two imports started within seconds of each other.
+     */
+    async acquireLock(): Promise<ImportLock | undefined> {
+        for (const path of await this.listFiles(LOCK_FILES)) {
+            const [lock] = parseLines<ImportLock>(
+                await this.vault.adapter.read(path)
+            );
+            if (
+                lock &&
+                lock.device !== this.device &&
+                Date.now() - lock.at < LOCK_TIMEOUT
+            ) {
+                return lock;
+            }
+        }
+
+        const folderResult = await ensureFolderExists(
+            this.getFolder(),
+            this.vault
+        );
+        if (!folderResult.success) {
+            throw new Error(
+                folderResult.error || "Failed to ensure folder exists."
+            );
+        }
+        const lock: ImportLock = { device: this.device, at: Date.now() };
+        await this.vault.adapter.write(
+            this.ownLockFile,
+            `${FILE_HEADER}\n${JSON.stringify(lock)}\n`
+        );
+        return undefined;
+    }
+
+    // Remove this device's lock, and expired locks of other devices
+    async releaseLock(): Promise<void> {
+        for (const path of await this.listFiles(LOCK_FILES)) {
+            const [lock] = parseLines<ImportLock>(
+                await this.vault.adapter.read(path)
+            );
+            if (
+                !lock ||
+                lock.device === this.device ||
+                Date.now() - lock.at >= LOCK_TIMEOUT
+            ) {
+                await this.vault.adapter.remove(path);
+            }
+        }
+    }
+}
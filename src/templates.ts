@@ -0,0 +1,115 @@
+// templates.ts
+
+/**
+ * Layout of the note header. Placeholders: {{title}}, {{id}}, {{provider}}, {{created}}, {{updated}},
+ * {{create_time}} and {{update_time}} (ISO 8601), {{url}}, {{model}}, {{nexus}} and {{properties}}
+ * (aliases, tags, counts and the other optional frontmatter lines).
+ */
+export const DEFAULT_HEADER_TEMPLATE =
+    "---\n" +
+    "nexus: {{nexus}}\n" +
+    "provider: {{provider}}\n" +
+    "conversation_id: {{id}}\n" +
+    "create_time: {{create_time}}\n" +
+    "update_time: {{update_time}}\n" +
+    "{{properties}}---\n" +
+    "\n" +
+    "# Title: {{title}}\n" +
+    "\n" +
+    "Created: {{created}}\n" +
+    "Last Updated: {{updated}}\n\n\n";
+
+/**
+ * Layout of each message. Placeholders: {{role}}, {{time}}, {{body}} (in the message style), {{text}} (raw),
+ * {{uid}}, {{model}}, {{heading}} ("###" for the user, "####" otherwise) and {{separator}}.
+ * Messages rendered without their `<!-- MESSAGE -->` and `<!-- UID: … -->` markers get them added, as
+ * updates rely on them.
+ */
+export const DEFAULT_MESSAGE_TEMPLATE =
+    "{{heading}} {{role}}, on {{time}};\n" +
+    "{{body}}\n" +
+    "<!-- UID: {{uid}} -->\n" +
+    "{{separator}}\n\n";
+
+export interface NoteTemplates {
+    header: string;
+    message: string;
+}
+
+// Lines that start each section of a template note; Obsidian hides `%%` comments when reading
+const SECTION_MARKER = /^%%\s*(header|message)\s*%%\s*$/gim;
+
+// Unknown placeholders are kept, so typos show up in the note instead of vanishing
+export function renderTemplate(
+    template: string,
+    values: Record<string, string>
+): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key) =>
+        key in values ? values[key] : placeholder
+    );
+}
+
+// A template note holds a `%% header %%` section, a `%% message %%` section, or both
+export function parseTemplateNote(text: string): Partial<NoteTemplates> {
+    const templates: Partial<NoteTemplates> = {};
+    const markers: { name: keyof NoteTemplates; start: number; end: number }[] =
+        [];
+
+    let match;
+    SECTION_MARKER.lastIndex = 0;
+    while ((match = SECTION_MARKER.exec(text)) !== null) {
+        markers.push({
+            name: match[1].toLowerCase() as keyof NoteTemplates,
+            start: match.index,
+            end: match.index + match[0].length + 1, // Skip the line break
+        });
+    }
+
+    markers.forEach((marker, index) => {
+        const next = markers[index + 1];
+        templates[marker.name] = text.substring(
+            marker.end,
+            next ? next.start : text.length
+        );
+    });
+
+    return templates;
+}
+
+// Properties the catalog and updates read back from the notes
+const REQUIRED_PROPERTIES = [
+    "nexus",
+    "provider",
+    "conversation_id",
+    "update_time",
+];
+
+/**
+ * What keeps notes written with this header template from being updated: missing properties, or an
+ * updated time outside the line updates rewrite. An empty template stands for the built-in one and passes.
+ */
+export function checkHeaderTemplate(header: string): string[] {
+    const problems: string[] = [];
+    if (!header) return problems;
+
+    const frontmatter = header.match(/^---\n([\s\S]*?\n)---\n/)?.[1];
+    const missing = REQUIRED_PROPERTIES.filter(
+        (key) => !new RegExp(`^${key}:`, "m").test(frontmatter || "")
+    );
+    if (missing.length > 0) {
+        problems.push(
+            `The header template leaves out the ${missing.join(
+                ", "
+            )} properties: notes are no longer recognized or updated.`
+        );
+    }
+    if (
+        /\{\{updated\}\}/.test(header) &&
+        !/^Last Updated: \{\{updated\}\}$/m.test(header)
+    ) {
+        problems.push(
+            'Updates only refresh {{updated}} on a "Last Updated: {{updated}}" line.'
+        );
+    }
+    return problems;
+}
@@ -0,0 +1,127 @@
+// tools.ts
+import { ChatMessage, MessageDisplay, ToolMessageType } from "./types";
+
+// Labels used in the settings tab, in display order
+export const TOOL_MESSAGE_LABELS: Record<ToolMessageType, string> = {
+    system: "System messages",
+    tool: "Tool outputs",
+    code: "Code and tool calls",
+    execution_output: "Code execution output",
+    tether_browsing_display: "Browsing results",
+    tether_quote: "Quoted web pages",
+    system_error: "Tool errors",
+};
+
+const CONTENT_TYPES: ToolMessageType[] = [
+    "code",
+    "execution_output",
+    "tether_browsing_display",
+    "tether_quote",
+    "system_error",
+];
+
+const CALLOUT_TYPES: Record<ToolMessageType, string> = {
+    system: "info",
+    tool: "example",
+    code: "example",
+    execution_output: "example",
+    tether_browsing_display: "quote",
+    tether_quote: "quote",
+    system_error: "failure",
+};
+
+// Undefined for ordinary user and assistant messages
+export function getToolMessageType(
+    message: ChatMessage
+): ToolMessageType | undefined {
+    const contentType = message.content?.content_type as ToolMessageType;
+    if (CONTENT_TYPES.includes(contentType)) return contentType;
+
+    const role = message.author?.role;
+    if (role === "system" || role === "tool") return role;
+
+    // Assistant messages addressed to a tool, e.g. a memory update sent to "bio"
+    if (message.recipient && message.recipient !== "all") return "code";
+    return undefined;
+}
+
+export function getToolName(message: ChatMessage): string | undefined {
+    if (message.author?.role === "assistant") {
+        return message.recipient && message.recipient !== "all"
+            ? message.recipient
+            : undefined;
+    }
+    return message.author?.name || undefined;
+}
+
+function getCalloutTitle(type: ToolMessageType, message: ChatMessage): string {
+    if (message.metadata?.canvas_revision) {
+        return `Canvas: ${message.metadata.canvas_revision.name}`;
+    }
+    const toolName = getToolName(message) || "tool";
+    switch (type) {
+        case "system":
+            return "System message";
+        case "code":
+            return `Call to ${toolName}`;
+        case "tether_browsing_display":
+            return `Browsing results from ${toolName}`;
+        case "tether_quote":
+            return `Quote from ${message.content.domain || toolName}`;
+        case "system_error":
+            return `Error from ${toolName}`;
+        default:
+            return `Output from ${toolName}`;
+    }
+}
+
+// Text of the content types that carry no `parts`; undefined when the message uses parts
+export function getToolContentText(message: ChatMessage): string | undefined {
+    const content = message.content;
+    switch (content?.content_type) {
+        case "code": {
+            const language =
+                content.language && content.language !== "unknown"
+                    ? content.language
+                    : message.recipient === "python"
+                    ? "python"
+                    : "";
+            return "```" + language + "\n" + (content.text || "") + "\n```";
+        }
+        case "execution_output":
+            return "```\n" + (content.text || "") + "\n```";
+        case "tether_browsing_display":
+            return content.result || content.summary || "";
+        case "tether_quote": {
+            const title = content.title || content.url || "";
+            const source = content.url ? `[${title}](${content.url})` : title;
+            return [source ? `**${source}**` : "", content.text || ""]
+                .filter((line) => line)
+                .join("\n\n");
+        }
+        case "system_error":
+            return content.name
+                ? `**${content.name}**: ${content.text || ""}`
+                : content.text || "";
+        default:
+            return undefined;
+    }
+}
+
+export function formatToolCallout(
+    type: ToolMessageType,
+    display: MessageDisplay,
+    message: ChatMessage,
+    text: string
+): string {
+    const fold = display === "collapse" ? "-" : "+";
+    const title = `> [!${CALLOUT_TYPES[type]}]${fold} ${getCalloutTitle(
+        type,
+        message
+    )}`;
+    const body = text
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+    return `${title}\n${body}`;
+}
@@ -0,0 +1,104 @@
+// tree.ts
+import { Chat, ChatBranch, ChatMessage, ChatNode } from "./types";
+import { isValidMessage } from "./utils";
+
+function isRoot(chat: Chat, node: ChatNode): boolean {
+    return !node.parent || !chat.mapping[node.parent];
+}
+
+// Follow the most recent child until reaching a leaf
+function followLatestChild(chat: Chat, start: ChatNode): ChatNode[] {
+    const path: ChatNode[] = [];
+    const visited = new Set<string>();
+    let node: ChatNode | undefined = start;
+
+    while (node && !visited.has(node.id)) {
+        visited.add(node.id);
+        path.push(node);
+        const children: string[] = (node.children || []).filter(
+            (childId) => chat.mapping[childId]
+        );
+        node = children.length
+            ? chat.mapping[children[children.length - 1]]
+            : undefined;
+    }
+
+    return path;
+}
+
+// Thread shown in the provider's UI: root to `current_node`, or the latest leaf when the export has none
+export function getActivePath(chat: Chat): ChatNode[] {
+    const currentNode = chat.current_node
+        ? chat.mapping[chat.current_node]
+        : undefined;
+
+    if (currentNode) {
+        const path: ChatNode[] = [];
+        const visited = new Set<string>();
+        let node: ChatNode | undefined = currentNode;
+        while (node && !visited.has(node.id)) {
+            visited.add(node.id);
+            path.unshift(node);
+            node = node.parent ? chat.mapping[node.parent] : undefined;
+        }
+        return path;
+    }
+
+    const root = Object.values(chat.mapping).find((node) => isRoot(chat, node));
+    return root ? followLatestChild(chat, root) : [];
+}
+
+// Edited prompts and regenerated answers: siblings of the active path, each followed to its latest leaf
+export function getAlternateBranches(
+    chat: Chat,
+    activePath: ChatNode[]
+): ChatBranch[] {
+    const onPath = new Set(activePath.map((node) => node.id));
+    const branches: ChatBranch[] = [];
+
+    for (const node of activePath) {
+        for (const childId of node.children || []) {
+            const child = chat.mapping[childId];
+            if (child && !onPath.has(childId)) {
+                branches.push({
+                    forkId: node.id,
+                    nodes: followLatestChild(chat, child),
+                });
+            }
+        }
+    }
+
+    return branches;
+}
+
+/**
+ * Alternates within an alternate branch: siblings of its messages, off the path it follows. They are not
+ * rendered, so callers can tell the user what was left out.
+ */
+export function getNestedBranches(
+    chat: Chat,
+    branches: ChatBranch[]
+): ChatBranch[] {
+    const nested: ChatBranch[] = [];
+    for (const branch of branches) {
+        const onBranch = new Set(branch.nodes.map((node) => node.id));
+        for (const node of branch.nodes) {
+            for (const childId of node.children || []) {
+                const child = chat.mapping[childId];
+                if (child && !onBranch.has(childId)) {
+                    nested.push({
+                        forkId: node.id,
+                        nodes: followLatestChild(chat, child),
+                    });
+                }
+            }
+        }
+    }
+    return nested;
+}
+
+export function getActiveMessages(chat: Chat): ChatMessage[] {
+    return getActivePath(chat)
+        .map((node) => node.message)
+        .filter((message): message is ChatMessage => isValidMessage(message));
+}
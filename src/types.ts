@@ -2,30 +2,162 @@
 export interface PluginSettings {
     archiveFolder: string;
     addDatePrefix: boolean;
-    dateFormat: 'YYYY-MM-DD' | 'YYYYMMDD';
+    dateFormat: "YYYY-MM-DD" | "YYYYMMDD";
+    fileNameTemplate: string; // e.g. "{date} - {title} ({shortid})"; empty to follow addDatePrefix
+    maxFileNameLength: number; // 0 for no limit
+    transliterateFileNames: boolean;
     hasShownUpgradeNotice: boolean; // Keep this as it is
     hasCompletedUpgrade: boolean; // New property added
+    geminiSessionGap: number; // Minutes between Gemini prompts that start a new conversation
+    branchHandling: BranchHandling;
+    noteLayout: NoteLayout; // Applies to new conversations; imported ones keep their layout
+    autoLink: boolean; // Link mentions of existing vault notes in message text
+    autoLinkExclude: string; // Note names, aliases or folders never linked to, one per line
+    userNotesSection: boolean; // Close new notes with a notes block that updates never touch
+    previewImports: boolean; // Show the changes of an import, and write them once confirmed
+    selectConversations: boolean; // Choose the conversations of an export to import
+    conversationFilter: ConversationFilter; // Last filter used to choose conversations
+    attachmentFolder: string; // Subfolder of archiveFolder for images and files
+    toolMessageDisplay: Record<ToolMessageType, MessageDisplay>;
+    messageStyle: MessageStyle;
+    folderPattern: string; // Subfolder of archiveFolder, e.g. "{provider}/{year}/{month}"; empty for a flat folder
+    providerFolderPatterns: Partial<Record<Provider, string>>; // Overrides folderPattern per provider
+    tags: string; // Comma-separated tags for new notes
+    templateNotePath: string; // Vault note with `%% header %%` and `%% message %%` sections
+    headerTemplate: string; // Empty for the built-in layout
+    messageTemplate: string; // Empty for the built-in layout
 }
 
+// What to do with edited prompts and regenerated answers that are not on the active thread
+export type BranchHandling = "drop" | "collapse" | "separate";
+
+// Which conversations of an export are listed for import
+export interface ConversationFilter {
+    query: string; // Matched against titles and message text
+    from: string; // YYYY-MM-DD of the earliest start date; empty for no limit
+    to: string; // YYYY-MM-DD of the latest start date; empty for no limit
+    model: string; // Empty for any model
+    group: string; // "gpt:<id>", "project:<id>" or "none"; empty for any
+    minMessages: number; // 0 for no limit
+    maxMessages: number; // 0 for no limit
+    newOrChangedOnly: boolean;
+}
+
+// One note per conversation, or an index note linking one note per prompt and its answer
+export type NoteLayout = "conversation" | "exchange";
+
+// How message text is set apart: nested quotes, role callouts, or no quoting at all
+export type MessageStyle = "quote" | "callout" | "plain";
+
+// Messages that are not part of the plain exchange between user and assistant
+export type ToolMessageType =
+    | "system"
+    | "tool"
+    | "code"
+    | "execution_output"
+    | "tether_browsing_display"
+    | "tether_quote"
+    | "system_error";
+
+// Shown as an expanded callout, a collapsed callout, or left out of the note
+export type MessageDisplay = "include" | "collapse" | "omit";
+
+export type Provider =
+    | "chatgpt"
+    | "claude"
+    | "gemini"
+    | "echoes"
+    | "openwebui"
+    | "librechat"
+    | "openai";
+
+export interface MessagePart {
+    content_type?: string;
+    text?: string;
+    [key: string]: any;
+}
 
 export interface ChatMessage {
-    message(message: any): unknown;
     id: string;
     author: {
-        role: 'user' | 'assistant';
+        role: "user" | "assistant" | "system" | "tool";
+        name?: string | null; // Tool that produced the message, e.g. "python" or "browser"
     };
     content: {
-        parts: string[];
+        content_type?: string;
+        parts?: (string | MessagePart)[];
+        text?: string; // `code`, `execution_output`, `tether_quote` and `system_error` content
+        [key: string]: any;
     };
+    recipient?: string; // "all", or the tool an assistant message is addressed to
     create_time: number;
+    metadata?: {
+        model_slug?: string;
+        attachments?: MessageAttachment[];
+        [key: string]: any;
+    };
+}
+
+// File uploaded with a message, as listed in its metadata
+export interface MessageAttachment {
+    id: string; // Asset ID, or the file name when the export has none
+    name: string;
+    vault_path?: string; // Where the file was copied; unset when the export does not hold it
+    [key: string]: any;
+}
+
+// Node of the conversation tree, as found in ChatGPT's `mapping`
+export interface ChatNode {
+    id: string;
+    message?: ChatMessage | null; // Empty for the synthetic root node
+    parent?: string | null;
+    children?: string[];
+}
+
+// Thread that forks off the active path at `forkId`
+export interface ChatBranch {
+    forkId: string;
+    nodes: ChatNode[];
 }
 
 export interface Chat {
     id: string;
     title: string;
+    provider: Provider;
+    url?: string; // Source URL, when the export provides one
     create_time: number;
     update_time: number;
-    mapping: Record<string, ChatMessage>;
+    mapping: Record<string, ChatNode>;
+    current_node?: string; // Leaf of the thread shown in the provider's UI
+    default_model_slug?: string | null;
+    gizmo_id?: string | null; // Custom GPT, or project when it starts with "g-p-"
+    conversation_template_id?: string | null;
+    is_archived?: boolean;
+}
+
+// Frontmatter value written by the importer
+export type PropertyValue = string | string[] | number | boolean | undefined;
+
+// Models and custom GPT or project a conversation was held with
+export interface ChatDetails {
+    models: string[]; // Models that answered on the active thread, in order of first use
+    defaultModel?: string;
+    gpt?: string; // Custom GPT ID; exports do not name GPTs or projects
+    project?: string; // Project ID
+    archived: boolean;
+}
+
+// ChatGPT canvas (canmore) document rebuilt from the calls on the active thread
+export interface CanvasDocument {
+    id: string; // `textdoc_id` from the tool response, or the creating message ID
+    name: string;
+    type: string; // "document", or "code/<language>"
+    versions: string[]; // Oldest first; the last entry is the final version
+}
+
+export interface EchoesDocument {
+    name: string; // File name of the Markdown export
+    text: string;
 }
 
 export interface ConversationRecord {
@@ -33,6 +165,12 @@ export interface ConversationRecord {
     updateTime: number;
 }
 
+// Export file already imported, by hash of its content
+export interface ImportedArchive {
+    fileName: string;
+    date: string; // ISO 8601 time of the import
+}
+
 export interface ReportEntry {
     title: string;
     filePath: string;
@@ -44,9 +182,13 @@ export interface ReportEntry {
 
 export interface ConversationCatalogEntry {
     conversationId: string; // Unique ID
-    provider: string;       // Source provider
-    updateTime: number;     // Last update timestamp
-    path: string;           // Path to the conversation file
+    provider: Provider; // Source provider
+    updateTime: number; // Last update timestamp
+    path: string; // Path to the conversation file
+    models?: string[]; // Models that answered
+    gpt?: string; // Custom GPT ID
+    project?: string; // Project ID
+    archived?: boolean;
 }
 
 export interface CustomError {
@@ -54,23 +196,6 @@ export interface CustomError {
     name?: string; // An optional string for the error name (like 'CustomError')
 }
 
-interface Timestamps {
-    create_time: number;
-    update_time: number;
-}
-
-export interface Chat extends Timestamps {
-    id: string;
-    title: string;
-    mapping: Record<string, ChatMessage>;
-}
-
-export interface ConversationCatalogEntry extends Timestamps {
-    conversationId: string;
-    provider: string;
-    path: string;
-}
-
 export interface ConfirmationDialogOptions {
     url: string; // The URL to display in the dialog
     message?: string; // Optional additional message
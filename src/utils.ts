@@ -2,13 +2,14 @@
 import { moment, App } from "obsidian";
 import { Logger } from "./logger";
 import { requestUrl } from "obsidian";
+import { ChatMessage, Provider } from "./types";
 
 const logger = new Logger();
 
 export function formatTimestamp(
     // REQUIRE REFACTORING TO SUPPORT OTHER DATE FORMATS THAN UNIXTIME
     unixTime: number,
-    format: "prefix" | "date" | "time"
+    format: "prefix" | "date" | "time" | "iso"
 ): string {
     const date = moment(unixTime * 1000);
     switch (format) {
@@ -18,6 +19,9 @@ export function formatTimestamp(
             return date.format("L");
         case "time":
             return date.format("LT");
+        case "iso":
+            // Local time, as Obsidian's date & time properties expect
+            return date.format("YYYY-MM-DDTHH:mm:ss");
     }
 }
 
@@ -29,6 +33,109 @@ export function generateYearMonthFolder(unixTime: number): string {
     return `${year}/${month}`;
 }
 
+/**
+ * Subfolder for a pattern such as "{provider}/{year}/Q{quarter}". Segments whose tokens have no value
+ * (a conversation outside any project for "{project_id}") and "." segments are left out.
+ */
+export function generateFolderFromPattern(
+    pattern: string,
+    unixTime: number,
+    tokens: Record<string, string | undefined>
+): string {
+    const date = new Date(unixTime * 1000);
+    const values: Record<string, string | undefined> = {
+        year: String(date.getFullYear()),
+        month: String(date.getMonth() + 1).padStart(2, "0"),
+        day: String(date.getDate()).padStart(2, "0"),
+        quarter: String(Math.floor(date.getMonth() / 3) + 1),
+        ...tokens,
+    };
+
+    return pattern
+        .split("/")
+        .map((segment) => {
+            let missing = false;
+            const resolved = segment.replace(/\{(\w+)\}/g, (token, key) => {
+                if (!(key in values)) return token; // Unknown tokens are kept as typed
+                const value = values[key];
+                if (!value) missing = true;
+                return generateFileName(value || "");
+            });
+            return missing ? "" : resolved.trim();
+        })
+        .filter((segment) => segment && segment !== ".")
+        .join("/");
+}
+
+// Catalog keys are namespaced by provider so IDs from different services never collide
+export function getCatalogKey(
+    provider: Provider,
+    conversationId: string
+): string {
+    return `${provider}:${conversationId}`;
+}
+
+// "ChatGPT (gpt-4o)"
+export function getAssistantLabel(provider: Provider, model?: string): string {
+    const withModel = (name: string) => (model ? `${name} (${model})` : name);
+    switch (provider) {
+        case "chatgpt":
+            return withModel("ChatGPT");
+        case "claude":
+            return withModel("Claude");
+        case "gemini":
+            return withModel("Gemini");
+        case "openwebui":
+        case "librechat":
+        case "openai":
+            // Self-hosted front-ends are named after the model that answered
+            return model || "Assistant";
+        default:
+            return "Assistant";
+    }
+}
+
+export function getConversationUrl(
+    provider: Provider | undefined,
+    conversationId: string
+): string | undefined {
+    switch (provider) {
+        case "chatgpt":
+            return `https://chatgpt.com/c/${conversationId}`;
+        case "claude":
+            return `https://claude.ai/chat/${conversationId}`;
+        default:
+            return undefined;
+    }
+}
+
+// Short stable hash for deriving IDs that exports do not provide
+export function hashString(value: string): string {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(16);
+}
+
+// Markdown members of an Echoes ZIP, ignoring macOS resource forks
+export function getEchoesMembers(fileNames: string[]): string[] {
+    return fileNames.filter(
+        (name) =>
+            name.toLowerCase().endsWith(".md") &&
+            !name.startsWith("__MACOSX/") &&
+            !name.split("/").pop()?.startsWith(".")
+    );
+}
+
+// Echoes archives only hold Markdown conversations, never a provider export
+export function isEchoesZip(fileNames: string[]): boolean {
+    return (
+        !fileNames.includes("conversations.json") &&
+        getEchoesMembers(fileNames).length > 0
+    );
+}
+
 export function formatTitle(title: string): string {
     return title.trim() || "Untitled"; // Just trim whitespace; retain spaces and characters for readability
 }
@@ -37,9 +144,76 @@ export function generateFileName(title: string): string {
     let fileName = formatTitle(title)
         .normalize("NFD")
         .replace(/[\u0300-\u036f]/g, "")
-        .replace(/[<>:"\/\\|?*\n\r]+/g, "");
+        .replace(/[<>:"\/\\|?*\n\r]+/g, "")
+        .replace(/[#^[\]]+/g, "") // Break wikilinks: headings, blocks and link brackets
+        .replace(/\s+/g, " ")
+        .replace(/^[.\s]+|[.\s]+$/g, ""); // Leading dots hide files; trailing ones break on Windows
+
+    return fileName || "Untitled"; // Return the sanitized filename based on title
+}
+
+// Letters without an ASCII base letter under NFD, as "letter=spelling"; capitals follow the lowercase
+const TRANSLITERATIONS: Record<string, string> = [
+    "ß=ss æ=ae œ=oe ø=o đ=d ð=d þ=th ł=l ı=i",
+    "а=a б=b в=v г=g д=d е=e ё=e ж=zh з=z и=i й=y к=k л=l м=m н=n о=o п=p р=r с=s т=t у=u ф=f х=kh ц=ts ч=ch ш=sh щ=shch ъ= ы=y ь= э=e ю=yu я=ya і=i ї=yi є=ye ґ=g",
+    "α=a β=v γ=g δ=d ε=e ζ=z η=i θ=th ι=i κ=k λ=l μ=m ν=n ξ=x ο=o π=p ρ=r σ=s ς=s τ=t υ=y φ=f χ=ch ψ=ps ω=o",
+]
+    .join(" ")
+    .split(" ")
+    .reduce((table, pair) => {
+        const [letter, spelling] = pair.split("=");
+        table[letter] = spelling;
+        return table;
+    }, {} as Record<string, string>);
+
+// Latin, Cyrillic and Greek letters to ASCII; other scripts are kept as they are
+export function transliterate(text: string): string {
+    return Array.from(text.normalize("NFC"))
+        .map((char) => {
+            const lower = char.toLowerCase();
+            const spelling = TRANSLITERATIONS[lower];
+            if (spelling === undefined) return char;
+            return char !== lower && spelling
+                ? spelling[0].toUpperCase() + spelling.substring(1)
+                : spelling;
+        })
+        .join("")
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "");
+}
+
+// Eight hex digits that stay the same for a conversation on every import and device
+export function getShortId(provider: Provider, conversationId: string): string {
+    return hashString(getCatalogKey(provider, conversationId)).padStart(8, "0");
+}
+
+/**
+ * File name (without extension) for a template such as "{date} - {title}". Only the title is
+ * shortened to fit `maxLength` (0 for no limit); unknown tokens are kept as typed.
+ */
+export function generateFileNameFromTemplate(
+    template: string,
+    tokens: Record<string, string>,
+    maxLength: number,
+    transliterateNames: boolean
+): string {
+    const clean = (value: string) =>
+        generateFileName(transliterateNames ? transliterate(value) : value);
+    const render = (title: string) =>
+        template.replace(/\{(\w+)\}/g, (token, key) => {
+            if (key === "title") return title;
+            return key in tokens ? clean(tokens[key]) : token;
+        });
 
-    return fileName; // Return the sanitized filename based on title
+    let title = clean(tokens.title || "");
+    const available = maxLength - render("").length;
+    if (maxLength > 0 && title.length > available) {
+        // Cut at a word boundary when one is close enough, so names don't end mid-word
+        const cut = title.substring(0, Math.max(available, 1));
+        const space = cut.lastIndexOf(" ");
+        title = space > cut.length / 2 ? cut.substring(0, space) : cut;
+    }
+    return generateFileName(render(title));
 }
 
 export function addPrefix(
@@ -100,18 +274,34 @@ export async function doesFilePathExist(
 }
 
 export async function getFileHash(file: File): Promise<string> {
-    const buffer = await file.arrayBuffer();
+    return hashArrayBuffer(await file.arrayBuffer());
+}
+
+export async function hashArrayBuffer(buffer: ArrayBuffer): Promise<string> {
     const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
     const hashArray = Array.from(new Uint8Array(hashBuffer));
     return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
-export function isValidMessage(message: ChatMessage): boolean {
+export function isValidMessage(
+    message: ChatMessage | null | undefined
+): boolean {
+    if (
+        !message ||
+        typeof message !== "object" ||
+        !message.content ||
+        typeof message.content !== "object"
+    ) {
+        return false;
+    }
+
+    // Code, execution output, quotes and errors carry their text outside of `parts`
+    const { text, result, summary } = message.content;
+    if ([text, result, summary].some((value) => isNonEmptyString(value))) {
+        return true;
+    }
+
     return (
-        message &&
-        typeof message === "object" &&
-        message.content &&
-        typeof message.content === "object" &&
         Array.isArray(message.content.parts) &&
         message.content.parts.length > 0 &&
         message.content.parts.some(
@@ -119,11 +309,17 @@ export function isValidMessage(message: ChatMessage): boolean {
                 (typeof part === "string" && part.trim() !== "") ||
                 (typeof part === "object" &&
                     part.content_type === "audio_transcription" &&
-                    part.text)
+                    part.text) ||
+                (typeof part === "object" &&
+                    part.content_type === "image_asset_pointer")
         )
     );
 }
 
+function isNonEmptyString(value: unknown): boolean {
+    return typeof value === "string" && value.trim() !== "";
+}
+
 export function isCustomError(error: any): error is CustomError {
     return error && typeof error.message === "string"; // Check if error has a 'message' property
 }
@@ -0,0 +1,256 @@
+// webui.ts
+import { Chat, ChatNode, ChatMessage, Provider } from "./types";
+import { hashString } from "./utils";
+
+// Exports of self-hosted front-ends (Open WebUI, LibreChat) and plain OpenAI-style `{role, content}` arrays
+interface WebUiMessage {
+    id?: string;
+    messageId?: string;
+    parentId?: string | null;
+    parentMessageId?: string | null;
+    children?: WebUiMessage[];
+    role?: string;
+    sender?: string;
+    isCreatedByUser?: boolean;
+    content?: string | { type: string; text?: string }[];
+    text?: string;
+    model?: string;
+    timestamp?: number;
+    createdAt?: string;
+    created_at?: number | string;
+}
+
+type Role = ChatMessage["author"]["role"];
+
+function toUnixTime(value: number | string | undefined): number | undefined {
+    if (typeof value === "number") {
+        // Some front-ends store milliseconds
+        return value > 1e12 ? value / 1000 : value;
+    }
+    if (typeof value === "string") {
+        const time = Date.parse(value);
+        return isNaN(time) ? undefined : time / 1000;
+    }
+    return undefined;
+}
+
+function getRole(message: WebUiMessage): Role {
+    if (message.isCreatedByUser !== undefined) {
+        return message.isCreatedByUser ? "user" : "assistant";
+    }
+    const role = (message.role || message.sender || "").toLowerCase();
+    if (role === "user" || role === "system" || role === "tool") return role;
+    return "assistant";
+}
+
+function getText(message: WebUiMessage): string {
+    const content = message.content ?? message.text ?? "";
+    if (typeof content === "string") return content;
+    return content
+        .filter((part) => part.type === "text" && part.text)
+        .map((part) => part.text)
+        .join("\n\n");
+}
+
+function isMessageList(value: any): value is WebUiMessage[] {
+    return (
+        Array.isArray(value) &&
+        value.length > 0 &&
+        value.every(
+            (item) =>
+                item &&
+                typeof item === "object" &&
+                ("role" in item || "sender" in item) &&
+                ("content" in item || "text" in item)
+        )
+    );
+}
+
+// LibreChat's "tree" export nests replies under `children`
+function flattenMessages(messages: WebUiMessage[]): WebUiMessage[] {
+    const flat: WebUiMessage[] = [];
+    for (const message of messages) {
+        flat.push(message);
+        if (Array.isArray(message.children)) {
+            flat.push(...flattenMessages(message.children));
+        }
+    }
+    return flat;
+}
+
+// Open WebUI's history is keyed by ID; walk it from the roots so every parent precedes its replies
+function orderByParent(messages: WebUiMessage[]): WebUiMessage[] {
+    const ids = new Set(messages.map((message) => message.id));
+    const replies = new Map<string | null, WebUiMessage[]>();
+    [...messages]
+        .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0))
+        .forEach((message) => {
+            const parentId =
+                message.parentId && ids.has(message.parentId)
+                    ? message.parentId
+                    : null;
+            replies.set(parentId, [...(replies.get(parentId) || []), message]);
+        });
+
+    const ordered: WebUiMessage[] = [];
+    const stack = [...(replies.get(null) || [])].reverse();
+    while (stack.length > 0) {
+        const message = stack.pop() as WebUiMessage;
+        ordered.push(message);
+        if (message.id) {
+            stack.push(...[...(replies.get(message.id) || [])].reverse());
+        }
+    }
+    return ordered;
+}
+
+// Stable ID for exports that do not carry one: later messages are left out, so a continued
+// conversation keeps matching the same note
+function getFallbackId(messages: WebUiMessage[]): string {
+    const first = messages[0];
+    if (!first) return hashString("");
+    return hashString(
+        [
+            first.id ?? first.messageId ?? "",
+            first.timestamp ?? first.createdAt ?? first.created_at ?? "",
+            getRole(first),
+            getText(first),
+        ].join("\n")
+    );
+}
+
+function buildChat(
+    provider: Provider,
+    id: string | undefined,
+    title: string | undefined,
+    messages: WebUiMessage[],
+    createTime?: number,
+    updateTime?: number
+): Chat {
+    const mapping: Record<string, ChatNode> = {};
+    const chatId = id || getFallbackId(messages);
+
+    let previousId: string | null = null;
+    messages.forEach((raw, index) => {
+        const messageId = raw.id || raw.messageId || `${chatId}-${index}`;
+        const explicitParent = raw.parentId ?? raw.parentMessageId;
+        const parentId =
+            explicitParent && explicitParent in mapping
+                ? explicitParent
+                : explicitParent === undefined
+                ? previousId
+                : null;
+        const time =
+            toUnixTime(raw.timestamp ?? raw.createdAt ?? raw.created_at) ??
+            createTime ??
+            Date.now() / 1000;
+
+        const message: ChatMessage = {
+            id: messageId,
+            author: { role: getRole(raw) },
+            content: { content_type: "text", parts: [getText(raw)] },
+            create_time: time,
+        };
+        if (raw.model) {
+            message.metadata = { model_slug: raw.model };
+        }
+
+        mapping[messageId] = {
+            id: messageId,
+            message,
+            parent: parentId,
+            children: [],
+        };
+        if (parentId) mapping[parentId].children?.push(messageId);
+        previousId = messageId;
+    });
+
+    const times = Object.values(mapping).map(
+        (node) => node.message?.create_time as number
+    );
+    const firstTime = createTime ?? (times.length ? Math.min(...times) : 0);
+
+    return {
+        id: chatId,
+        title: title || "Untitled",
+        provider,
+        create_time: firstTime,
+        update_time:
+            updateTime ?? (times.length ? Math.max(...times) : firstTime),
+        mapping,
+    };
+}
+
+function convertConversation(conversation: any): Chat | undefined {
+    // Open WebUI: { id, title, chat: { messages, history }, created_at, updated_at }
+    if (conversation.chat && typeof conversation.chat === "object") {
+        const chat = conversation.chat;
+        const history = chat.history?.messages;
+        // History holds every branch
+        const messages: WebUiMessage[] =
+            history && typeof history === "object"
+                ? orderByParent(Object.values(history) as WebUiMessage[])
+                : chat.messages || [];
+        const converted = buildChat(
+            "openwebui",
+            conversation.id || chat.id,
+            conversation.title || chat.title,
+            messages,
+            toUnixTime(conversation.created_at),
+            toUnixTime(conversation.updated_at)
+        );
+        if (chat.history?.currentId in converted.mapping) {
+            converted.current_node = chat.history.currentId;
+        }
+        return converted;
+    }
+
+    // LibreChat: { conversationId, title, messages }
+    if (conversation.conversationId && Array.isArray(conversation.messages)) {
+        return buildChat(
+            "librechat",
+            conversation.conversationId,
+            conversation.title,
+            flattenMessages(conversation.messages),
+            toUnixTime(conversation.createdAt),
+            toUnixTime(conversation.updatedAt)
+        );
+    }
+
+    // Generic: { id?, title?, messages: [{ role, content }] }
+    if (isMessageList(conversation.messages)) {
+        return buildChat(
+            "openai",
+            conversation.id,
+            conversation.title,
+            conversation.messages,
+            toUnixTime(conversation.create_time ?? conversation.created_at),
+            toUnixTime(conversation.update_time ?? conversation.updated_at)
+        );
+    }
+
+    return undefined;
+}
+
+export function convertWebUiExport(data: any, fileName: string): Chat[] {
+    // A bare message array is a single conversation named after the file
+    if (isMessageList(data)) {
+        return [
+            buildChat(
+                "openai",
+                undefined,
+                fileName.replace(/\.json$/i, ""),
+                data
+            ),
+        ];
+    }
+
+    const conversations = Array.isArray(data) ? data : [data];
+    return conversations
+        .map((conversation) =>
+            conversation && typeof conversation === "object"
+                ? convertConversation(conversation)
+                : undefined
+        )
+        .filter((chat): chat is Chat => chat !== undefined);
+}